@@ -0,0 +1,170 @@
+import { EventRef, TFolder } from "obsidian";
+import type SimplePinPlugin from "./main";
+
+/**
+ * Public API for other plugins and scripts, available as
+ * `app.plugins.getPlugin("simple-pin").api`:
+ *
+ * ```js
+ * const pins = app.plugins.getPlugin("simple-pin")?.api;
+ * if (pins?.isPinned("Inbox.md")) …
+ * const off = pins.onChange((changes) => console.log(changes));
+ * ```
+ *
+ * Every change is also announced on the workspace as
+ * `"simple-pin:changed"`, with the same {@link PinChange} list:
+ *
+ * ```js
+ * app.workspace.on("simple-pin:changed", (changes) => …);
+ * ```
+ *
+ * Paths are vault-relative, as in `TAbstractFile.path`.  All calls act
+ * on the active pin profile.
+ */
+export interface SimplePinApi {
+	/** Bumped on breaking changes to this interface */
+	readonly version: number;
+	/** Pinned manually or by a rule */
+	isPinned(path: string): boolean;
+	/** Every pin: files top to bottom as the explorer shows them, then folders */
+	list(): PinInfo[];
+	/**
+	 * Pin a file or folder, optionally until a date.  Resolves to false
+	 * when the path doesn't exist or can't be pinned.
+	 */
+	pin(path: string, options?: { until?: Date }): Promise<boolean>;
+	/** Remove a manual pin. Resolves to false if there was none. */
+	unpin(path: string): Promise<boolean>;
+	/** Call `callback` after every change; returns a function that unsubscribes. */
+	onChange(callback: (changes: PinChange[]) => void): () => void;
+}
+
+/** A pinned path and where its pin comes from. */
+export interface PinInfo {
+	path: string;
+	source: "manual" | "rule";
+	/** Epoch ms when a temporary pin ends */
+	expiresAt?: number;
+	/** Shown in the global "Pinned" section */
+	global?: boolean;
+	/** Why the path is pinned, as entered by the user */
+	label?: string;
+}
+
+/**
+ * One pin that changed: newly `pinned`, `unpinned`, or `updated`
+ * (still pinned, but its source or metadata changed).
+ */
+export interface PinChange {
+	type: "pinned" | "unpinned" | "updated";
+	path: string;
+	/** The pin after the change; absent for `unpinned` */
+	pin?: PinInfo;
+}
+
+declare module "obsidian" {
+	interface Workspace {
+		on(name: "simple-pin:changed", callback: (changes: PinChange[]) => unknown, ctx?: unknown): EventRef;
+	}
+}
+
+/** Implementation of {@link SimplePinApi} on top of `PinManager`. */
+export class PinApi implements SimplePinApi {
+	readonly version = 1;
+	private plugin: SimplePinPlugin;
+	private listeners: Set<(changes: PinChange[]) => void> = new Set();
+	/** Path → serialized pin, to work out what each change did */
+	private snapshot: Map<string, string>;
+
+	constructor(plugin: SimplePinPlugin) {
+		this.plugin = plugin;
+		this.snapshot = this.takeSnapshot();
+		plugin.registerEvent(plugin.pinManager.on("changed", () => this.announce()));
+	}
+
+	isPinned(path: string): boolean {
+		return this.plugin.pinManager.isPinned(path);
+	}
+
+	list(): PinInfo[] {
+		const pm = this.plugin.pinManager;
+		const files = pm.getPinnedFilesInOrder();
+		const folders = [...pm.getPinnedPaths()].filter((p) => !files.includes(p)).sort();
+		return [...files, ...folders].map((path) => this.info(path)).filter((p) => p !== null);
+	}
+
+	async pin(path: string, options?: { until?: Date }): Promise<boolean> {
+		const file = this.plugin.app.vault.getAbstractFileByPath(path);
+		if (!file || (file instanceof TFolder && file.isRoot())) return false;
+		await this.plugin.pinManager.pin(path, options?.until ? { until: options.until } : undefined);
+		this.plugin.refreshExplorer();
+		return true;
+	}
+
+	async unpin(path: string): Promise<boolean> {
+		if (!this.plugin.pinManager.isManuallyPinned(path)) return false;
+		await this.plugin.pinManager.unpin(path);
+		this.plugin.refreshExplorer();
+		return true;
+	}
+
+	onChange(callback: (changes: PinChange[]) => void): () => void {
+		this.listeners.add(callback);
+		return () => this.listeners.delete(callback);
+	}
+
+	/** Drop all subscribers (on unload). */
+	clear(): void {
+		this.listeners.clear();
+	}
+
+	/* ── internal ───────────────────────────────────── */
+
+	private info(path: string): PinInfo | null {
+		const pm = this.plugin.pinManager;
+		const source = pm.getPinSource(path);
+		if (!source) return null;
+		const info: PinInfo = { path, source };
+		const record = pm.getPin(path);
+		if (record?.expiresAt !== undefined) info.expiresAt = record.expiresAt;
+		if (record?.global) info.global = true;
+		if (record?.label) info.label = record.label;
+		return info;
+	}
+
+	private takeSnapshot(): Map<string, string> {
+		const snapshot = new Map<string, string>();
+		for (const path of this.plugin.pinManager.getPinnedPaths()) {
+			snapshot.set(path, JSON.stringify(this.info(path)));
+		}
+		return snapshot;
+	}
+
+	/** Diff against the last snapshot and tell listeners what changed. */
+	private announce(): void {
+		const before = this.snapshot;
+		const after = this.takeSnapshot();
+		this.snapshot = after;
+
+		const changes: PinChange[] = [];
+		for (const [path, pin] of after) {
+			const old = before.get(path);
+			if (old === pin) continue;
+			const info = this.info(path) ?? undefined;
+			changes.push({ type: old === undefined ? "pinned" : "updated", path, pin: info });
+		}
+		for (const path of before.keys()) {
+			if (!after.has(path)) changes.push({ type: "unpinned", path });
+		}
+		if (changes.length === 0) return;
+
+		this.plugin.app.workspace.trigger("simple-pin:changed", changes);
+		for (const listener of this.listeners) {
+			try {
+				listener(changes);
+			} catch (e) {
+				console.error("[Simple Pin] onChange listener failed:", e);
+			}
+		}
+	}
+}
@@ -0,0 +1,42 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Asks before a destructive bulk action.  `onConfirm` runs only when
+ * the user clicks the (warning-styled) confirm button.
+ */
+export class ConfirmModal extends Modal {
+	private title: string;
+	private message: string;
+	private confirmText: string;
+	private onConfirm: () => void;
+
+	constructor(app: App, title: string, message: string, confirmText: string, onConfirm: () => void) {
+		super(app);
+		this.title = title;
+		this.message = message;
+		this.confirmText = confirmText;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle(this.title);
+		contentEl.createEl("p", { text: this.message });
+
+		new Setting(contentEl)
+			.addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+			.addButton((btn) =>
+				btn
+					.setButtonText(this.confirmText)
+					.setWarning()
+					.onClick(() => {
+						this.close();
+						this.onConfirm();
+					}),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
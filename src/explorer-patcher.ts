@@ -1,8 +1,14 @@
+import { TAbstractFile, TFolder, moment } from "obsidian";
 import type SimplePinPlugin from "./main";
+import { parentPath } from "./pin-manager";
+import { GlobalSection } from "./global-section";
+import { PinDragHandler } from "./pin-drag-handler";
+import { INDICATOR_CLS, createPinIndicator, createSunkIndicator } from "./pin-indicator";
+import { compareByOrder, comparePinned, getFolderSort, pinnedSortModeFor } from "./sort-modes";
 
 /**
- * Patches the File Explorer's sort behaviour so that pinned files
- * always appear at the top of their containing folder while preserving
+ * Patches the File Explorer's sort behaviour so that pinned files and
+ * folders always appear at the top of their containing folder while preserving
  * the user's chosen sort order among both pinned and unpinned groups.
  *
  * KEY APPROACH – prototype-level patching:
@@ -10,8 +16,12 @@ import type SimplePinPlugin from "./main";
  *   We wrap that prototype method *once* so that EVERY folder (including
  *   newly created ones and the vault root) automatically runs our
  *   pin-reorder logic after the original sort.  After rearranging the
- *   `children` data array we also reorder the DOM by calling
- *   `appendChild()` which *moves* existing nodes.
+ *   `children` data array we also reorder the DOM by *moving* the
+ *   existing nodes that are out of place.
+ *
+ * Refreshes are incremental: only folders whose pinned children changed
+ * are re-sorted, and indicators are updated as a per-path diff once the
+ * sorts have run.
  *
  * Because the File Explorer internals are **not** part of Obsidian's
  * public API, every access is wrapped in defensive checks.  If a future
@@ -24,56 +34,133 @@ export class ExplorerPatcher {
 	private patchedProto: any = null;
 	/** The original, unpatched sort function */
 	private originalSort: Function | null = null;
+	/** Drag-to-reorder support for pinned items */
+	private dragHandler: PinDragHandler;
+	/** Optional "Pinned" shortcuts section at the explorer root */
+	private globalSection: GlobalSection;
+	/** Pinned or sunk path → pin index as of the last refresh (null: sort everything) */
+	private applied: Map<string, number> | null = null;
+	/** Explorer view and sort settings the `applied` state belongs to */
+	private appliedView: any = null;
+	private appliedSorting = "";
+	/** Path → signature of the indicator currently shown for it */
+	private shown: Map<string, string> = new Map();
+	/** Folder path → pinned-descendant count its badge currently shows */
+	private badges: Map<string, number> = new Map();
+	private indicatorsQueued = false;
+
+	/** Stands in for the pin index of sunk paths in `applied` */
+	private static readonly SUNK = -2;
 
 	constructor(plugin: SimplePinPlugin) {
 		this.plugin = plugin;
+		this.dragHandler = new PinDragHandler(plugin);
+		this.globalSection = new GlobalSection(plugin);
 	}
 
 	/* ═══════════════════════════════════════════════
 	 *  Public API
 	 * ═══════════════════════════════════════════════ */
 
-	/** Ensure the sort prototype is patched, trigger a re-sort, and refresh indicators. */
+	/** Ensure the sort prototype is patched, then refresh. */
 	patchAndRefresh(): void {
 		try {
 			const view = this.getExplorerView();
 			if (!view) return;
 
 			this.ensurePatched(view);
-			this.triggerSort(view);
-
-			// Indicators are applied after a short delay so the DOM has
-			// settled from the async requestSort() call.
-			window.setTimeout(() => {
-				try {
-					this.updateIndicators();
-				} catch (_) {
-					/* swallow – non-critical */
-				}
-			}, 60);
+			if (view.containerEl instanceof HTMLElement) {
+				this.dragHandler.attach(view.containerEl);
+			}
+			this.refresh();
 		} catch (e) {
 			console.warn("[Simple Pin] patchAndRefresh failed:", e);
 		}
 	}
 
-	/** Re-sort + update indicators (prototype already patched). */
+	/**
+	 * Re-sort only the folders whose pinned children changed since the
+	 * last refresh (everything on the first run), then update indicators.
+	 * Cheap when nothing changed, so it's fine to call on every
+	 * layout-change.
+	 */
 	refresh(): void {
 		try {
 			const view = this.getExplorerView();
 			if (!view) return;
-			this.triggerSort(view);
-			window.setTimeout(() => {
-				try {
-					this.updateIndicators();
-				} catch (_) {
-					/* swallow */
-				}
-			}, 60);
+			if (view.containerEl instanceof HTMLElement) {
+				this.globalSection.render(view.containerEl);
+			}
+
+			this.applyContainerStyle(view);
+			const dirty = this.takeDirtyFolders(view);
+			if (dirty === null || ![...dirty].every((folder) => this.sortFolder(view, folder))) {
+				this.triggerSort(view);
+			}
+			// Sorting queues this too; without changed folders nothing sorts
+			this.scheduleIndicators();
 		} catch (e) {
 			console.warn("[Simple Pin] refresh failed:", e);
 		}
 	}
 
+	/**
+	 * Re-sort one folder now, e.g. after a file in it was edited and the
+	 * folder (or its pinned group) is sorted by modified time.
+	 */
+	resortFolder(folderPath: string): void {
+		try {
+			const view = this.getExplorerView();
+			if (view) this.sortFolder(view, folderPath);
+		} catch (e) {
+			console.warn("[Simple Pin] resortFolder failed:", e);
+		}
+	}
+
+	/** Expand the explorer down to `file`, scroll it into view and select it. */
+	reveal(file: TAbstractFile): void {
+		try {
+			const view = this.getExplorerView();
+			if (typeof view?.revealInFolder === "function") {
+				view.revealInFolder(file);
+			}
+		} catch (e) {
+			console.warn("[Simple Pin] reveal failed:", e);
+		}
+	}
+
+	/**
+	 * Expand the folders above each of `paths` (and no others), then
+	 * scroll to and select the first one.  `paths` should be in
+	 * explorer order.
+	 */
+	revealPaths(paths: readonly string[]): void {
+		try {
+			const view = this.getExplorerView();
+			const items: Record<string, any> | undefined = view?.fileItems;
+			const [first] = paths;
+			if (!items || first === undefined) return;
+
+			const folders = new Set<string>();
+			for (const path of paths) {
+				for (let folder = parentPath(path); folder !== "/"; folder = parentPath(folder)) {
+					folders.add(folder);
+				}
+			}
+			// Parents before their subfolders
+			const sorted = [...folders].sort((a, b) => a.split("/").length - b.split("/").length);
+			for (const folder of sorted) {
+				const item = items[folder];
+				if (item?.collapsed && typeof item.setCollapsed === "function") item.setCollapsed(false);
+			}
+
+			const file = this.plugin.app.vault.getAbstractFileByPath(first);
+			if (file) this.reveal(file);
+		} catch (e) {
+			console.warn("[Simple Pin] revealPaths failed:", e);
+		}
+	}
+
 	/** Restore the original sort method and remove all indicators. */
 	unpatch(): void {
 		try {
@@ -84,7 +171,10 @@ export class ExplorerPatcher {
 				console.log("[Simple Pin] Restored original file-explorer sort().");
 			}
 			this.removeAllIndicators();
+			this.globalSection.remove();
+			this.applied = null;
 			const view = this.getExplorerView();
+			this.removeContainerStyle(view);
 			if (view) this.triggerSort(view);
 		} catch (e) {
 			console.warn("[Simple Pin] unpatch failed:", e);
@@ -138,12 +228,22 @@ export class ExplorerPatcher {
 			//          chosen sort mode: alphabetical, by date, etc.)
 			origSort.call(this);
 
-			// Step 2 — move pinned children to the front
+			// Step 2 — re-sort folders that have their own sort order
+			try {
+				patcher.applyFolderSort(this);
+			} catch (e) {
+				console.warn("[Simple Pin] applyFolderSort error:", e);
+			}
+
+			// Step 3 — move pinned children to the front, sunk ones to the back
 			try {
 				patcher.reorderFolder(this);
 			} catch (e) {
 				console.warn("[Simple Pin] reorderFolder error:", e);
 			}
+
+			// Step 4 — indicators, once the current batch of sorts is done
+			patcher.scheduleIndicators();
 		};
 
 		console.log(
@@ -155,58 +255,201 @@ export class ExplorerPatcher {
 	 *  Per-folder reorder (data array + DOM)
 	 * ═══════════════════════════════════════════════ */
 
+	/**
+	 * Re-sort a folder that has a sort override (see `folderSorts`) in
+	 * its own order, replacing Obsidian's.  Children without a file
+	 * keep their place at the end.
+	 */
+	private applyFolderSort(folderItem: any): void {
+		const folderPath: string | undefined = folderItem.file?.path;
+		if (folderPath === undefined) return;
+		const order = getFolderSort(this.plugin.settings, folderPath)?.order;
+		if (!order) return;
+
+		const children = this.getChildren(folderItem);
+		if (!children || children.length < 2) return;
+
+		const compare = compareByOrder(order);
+		const sorted = [...children].sort((a, b) => {
+			if (!a?.file || !b?.file) return (a?.file ? 0 : 1) - (b?.file ? 0 : 1);
+			return compare(a.file, b.file);
+		});
+		if (sorted.every((child, i) => children[i] === child)) return;
+		for (let i = 0; i < sorted.length; i++) {
+			children[i] = sorted[i];
+		}
+		this.syncDom(sorted);
+	}
+
 	/**
 	 * Given a folder tree item whose children have just been sorted by
-	 * Obsidian, partition them into [pinned…, unpinned…] preserving
-	 * relative order within each group, then rewrite the array in-place
-	 * and reorder the corresponding DOM nodes.
+	 * Obsidian, partition them into [pinned…, unpinned…, sunk…], then
+	 * rewrite the array in-place and reorder the corresponding DOM nodes.
+	 * Pinned children follow the folder's pinned sort mode (by default
+	 * the user-defined pin order); unpinned and sunk children keep
+	 * Obsidian's order.
+	 *
+	 * With `pinnedFoldersFirst` on, the pinned group is further split
+	 * into [pinned folders…, pinned files…]; otherwise pinned folders
+	 * and files stay mixed.
+	 *
+	 * This runs for every folder Obsidian sorts, so folders without
+	 * pinned or sunk children bail out before looking at their children.
 	 */
 	private reorderFolder(folderItem: any): void {
-		// Obsidian stores child items in different locations across
-		// versions — try each known path defensively.
-		const children: any[] | undefined =
-			folderItem.vChildren?._children ?? // Obsidian ≥ 1.6+
-			folderItem.vChildren?.children ?? // alternate layout
-			folderItem.children; // older versions
+		const pm = this.plugin.pinManager;
+		const folderPath: string | undefined = folderItem.file?.path;
+		if (folderPath !== undefined && !pm.hasPinnedChildren(folderPath) && !pm.hasSunkChildren(folderPath)) {
+			return;
+		}
 
+		const children = this.getChildren(folderItem);
 		if (!children || children.length < 2) return;
 
-		const pinnedSet = this.plugin.pinManager.getPinnedPaths();
-		if (pinnedSet.size === 0) return;
-
+		const pinnedSet = pm.getPinnedPaths();
+		const foldersFirst = this.plugin.settings.pinnedFoldersFirst;
+		const pinnedFolders: any[] = [];
 		const pinned: any[] = [];
 		const unpinned: any[] = [];
+		const sunk: any[] = [];
 
+		// A pin (even by rule) wins over a sink of the same path
 		for (const child of children) {
 			const path: string | undefined = child?.file?.path;
-			if (path !== undefined && pinnedSet.has(path)) {
-				pinned.push(child);
-			} else {
+			if (path === undefined) {
 				unpinned.push(child);
+			} else if (!pinnedSet.has(path)) {
+				(pm.isSunk(path) ? sunk : unpinned).push(child);
+			} else if (foldersFirst && child.file instanceof TFolder) {
+				pinnedFolders.push(child);
+			} else {
+				pinned.push(child);
 			}
 		}
 
-		if (pinned.length === 0) return;
+		if (pinned.length === 0 && pinnedFolders.length === 0 && sunk.length === 0) return;
+
+		const compare = this.pinnedComparator(folderPath ?? "/");
+		if (compare) {
+			pinnedFolders.sort(compare);
+			pinned.sort(compare);
+		}
+
+		const merged = [...pinnedFolders, ...pinned, ...unpinned, ...sunk];
+		if (merged.every((child, i) => children[i] === child)) return;
 
 		// ── Rewrite the children array in-place ──────────────────
-		const merged = [...pinned, ...unpinned];
 		for (let i = 0; i < merged.length; i++) {
 			children[i] = merged[i];
 		}
 
 		// ── Reorder DOM to match ─────────────────────────────────
-		// `appendChild` on an existing child node *moves* it to the
-		// end of its parent.  By appending in the new order we
-		// rearrange the visible tree without creating / destroying
-		// elements.
-		for (const child of children) {
-			const el: HTMLElement | undefined = child?.el;
-			if (el?.parentElement) {
-				el.parentElement.appendChild(el);
+		this.syncDom(merged);
+	}
+
+	/**
+	 * How to sort the pinned group of `folderPath`, or null to keep
+	 * Obsidian's order ("inherit").
+	 */
+	private pinnedComparator(folderPath: string): ((a: any, b: any) => number) | null {
+		const mode = pinnedSortModeFor(this.plugin.settings, folderPath);
+		if (mode === "inherit") return null;
+		if (mode === "manual") {
+			// Manual pins follow their stored order; rule-derived pins have
+			// none (index -1) and keep Obsidian's order after them.
+			const pm = this.plugin.pinManager;
+			const rank = (child: any): number => {
+				const index = pm.getPinIndex(child.file.path);
+				return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+			};
+			return (a, b) => rank(a) - rank(b);
+		}
+		const compare = comparePinned(mode);
+		return (a, b) => compare(a.file, b.file);
+	}
+
+	/**
+	 * Move the rows of `items` so the DOM follows their order, touching
+	 * only rows that are out of place.  Each row must directly follow
+	 * the previous one; the first row stays where it is and any item
+	 * that was in front of it gets moved behind it.  Moving an
+	 * existing node with `after()` keeps it alive — nothing is created
+	 * or destroyed.
+	 */
+	private syncDom(items: any[]): void {
+		let prev: HTMLElement | null = null;
+		for (const item of items) {
+			const el: HTMLElement | undefined = item?.el;
+			if (!el?.parentElement) continue;
+			if (prev && prev.parentElement === el.parentElement && prev.nextElementSibling !== el) {
+				prev.after(el);
 			}
+			prev = el;
 		}
 	}
 
+	/* ═══════════════════════════════════════════════
+	 *  Change tracking
+	 * ═══════════════════════════════════════════════ */
+
+	/**
+	 * Compare the pin state with the one applied at the last refresh and
+	 * return the folders whose pinned or sunk children (or their order)
+	 * changed.
+	 * Returns null when everything must be re-sorted: on the first run,
+	 * for a new explorer view, or when a grouping or sort setting changed.
+	 */
+	private takeDirtyFolders(view: any): Set<string> | null {
+		const pm = this.plugin.pinManager;
+		const { pinnedFoldersFirst, pinnedSortMode, folderSorts } = this.plugin.settings;
+		const sorting = JSON.stringify([pinnedFoldersFirst, pinnedSortMode, folderSorts]);
+		// Path → pin index (-1 for rule pins), or SUNK
+		const next = new Map<string, number>();
+		for (const path of pm.getSunkPaths()) next.set(path, ExplorerPatcher.SUNK);
+		for (const path of pm.getPinnedPaths()) next.set(path, pm.getPinIndex(path));
+
+		const prev = this.applied;
+		const full = !prev || view !== this.appliedView || sorting !== this.appliedSorting;
+		this.applied = next;
+		this.appliedView = view;
+		this.appliedSorting = sorting;
+		if (full) return null;
+
+		const dirty = new Set<string>();
+		for (const [path, index] of next) {
+			if (prev.get(path) !== index) dirty.add(parentPath(path));
+		}
+		for (const path of prev.keys()) {
+			if (!next.has(path)) dirty.add(parentPath(path));
+		}
+		return dirty;
+	}
+
+	/**
+	 * Sort a single folder through its tree item (which runs the patched
+	 * sort).  Returns false if the item can't be found.
+	 */
+	private sortFolder(view: any, folderPath: string): boolean {
+		const item = view.fileItems?.[folderPath];
+		if (typeof item?.sort !== "function") return false;
+		item.sort();
+		return true;
+	}
+
+	/** Update indicators once, after the sorts of the current task finish. */
+	private scheduleIndicators(): void {
+		if (this.indicatorsQueued) return;
+		this.indicatorsQueued = true;
+		queueMicrotask(() => {
+			this.indicatorsQueued = false;
+			try {
+				this.updateIndicators();
+			} catch (e) {
+				console.warn("[Simple Pin] updateIndicators failed:", e);
+			}
+		});
+	}
+
 	/* ═══════════════════════════════════════════════
 	 *  Helpers
 	 * ═══════════════════════════════════════════════ */
@@ -218,6 +461,34 @@ export class ExplorerPatcher {
 		return leaves[0]?.view ?? null;
 	}
 
+	/**
+	 * The child items of a folder item.  Obsidian stores them in
+	 * different locations across versions — try each known path
+	 * defensively.
+	 */
+	private getChildren(folderItem: any): any[] | undefined {
+		return (
+			folderItem.vChildren?._children ?? // Obsidian ≥ 1.6+
+			folderItem.vChildren?.children ?? // alternate layout
+			folderItem.children // older versions
+		);
+	}
+
+	/** The row element of an explorer item (`.nav-file-title` / `.nav-folder-title`). */
+	private getRowEl(item: any): HTMLElement | undefined {
+		return item.selfEl ?? item.el;
+	}
+
+	/**
+	 * Element a prefix indicator is prepended to.  Folder rows start with a
+	 * collapse chevron, so their indicator goes inside the title text
+	 * instead of in front of the chevron.
+	 */
+	private getTitleEl(item: any): HTMLElement | undefined {
+		if (item.file instanceof TFolder && item.innerEl) return item.innerEl;
+		return item.selfEl ?? item.innerEl ?? item.el;
+	}
+
 	/**
 	 * Walk `view.fileItems` to find any folder item (i.e. one whose
 	 * `.file` is a TFolder and that has a `sort` method).  We only
@@ -253,56 +524,200 @@ export class ExplorerPatcher {
 	}
 
 	/* ═══════════════════════════════════════════════
-	 *  Pin indicators (📌 prefix)
+	 *  Pin indicators and row styling
 	 * ═══════════════════════════════════════════════ */
 
-	private static readonly CLS = "simple-pin-indicator";
+	private static readonly CLS = INDICATOR_CLS;
+	/** Inline pin label after the name (when enabled in settings) */
+	private static readonly LABEL_CLS = "simple-pin-label";
+	/** Attribute on pinned rows, valued "manual" or "rule", for themes and snippets */
+	private static readonly ATTR = "data-simple-pin";
+	/** Attribute on sunk rows, kept apart so pin highlighting skips them */
+	private static readonly SUNK_ATTR = "data-simple-pin-sunk";
+	/** Count of pinned descendants on folder rows (CSS shows it only when collapsed) */
+	private static readonly BADGE_CLS = "simple-pin-folder-badge";
 
-	/** Add or remove 📌 indicators based on current pin state + settings. */
+	/**
+	 * Bring indicators and pinned-row styling in line with the current
+	 * pin state and settings.  Works as a diff against what is already
+	 * shown, so it only touches rows whose pin state changed (or whose
+	 * styling went missing).
+	 */
 	updateIndicators(): void {
 		const view = this.getExplorerView();
 		const items: Record<string, any> | undefined = view?.fileItems;
 		if (!items) return;
 
-		const show = this.plugin.settings.showPinIndicator;
-		const pinnedSet = this.plugin.pinManager.getPinnedPaths();
+		const desired = this.desiredRows();
 
-		for (const [path, item] of Object.entries(items)) {
-			if (!item) continue;
+		for (const path of this.shown.keys()) {
+			if (desired.has(path)) continue;
+			if (items[path]) this.clearRow(items[path]);
+			this.shown.delete(path);
+		}
 
-			// Obsidian stores the title element under varying names.
-			const titleEl: HTMLElement | undefined =
-				item.selfEl ?? item.innerEl ?? item.el;
-			if (!titleEl) continue;
+		for (const [path, signature] of desired) {
+			const item = items[path];
+			const rowEl = item ? this.getRowEl(item) : undefined;
+			if (!rowEl) {
+				this.shown.delete(path);
+				continue;
+			}
+			const styled = rowEl.hasAttribute(ExplorerPatcher.ATTR) || rowEl.hasAttribute(ExplorerPatcher.SUNK_ATTR);
+			if (styled && this.shown.get(path) === signature) continue;
+			this.clearRow(item);
+			this.styleRow(item, path);
+			this.shown.set(path, signature);
+		}
 
-			// Remove any existing indicator first
-			titleEl
-				.querySelector(`.${ExplorerPatcher.CLS}`)
-				?.remove();
+		this.updateBadges(items);
+	}
 
-			if (show && pinnedSet.has(path)) {
-				const span = createSpan({
-					cls: ExplorerPatcher.CLS,
-					text: "\u{1F4CC} ", // 📌 + thin space
-				});
-				titleEl.prepend(span);
+	/** Strip all indicators and row styling from every item. */
+	removeAllIndicators(): void {
+		const items: Record<string, any> | undefined = this.getExplorerView()?.fileItems;
+		for (const path of this.shown.keys()) {
+			if (items?.[path]) this.clearRow(items[path]);
+		}
+		this.shown.clear();
+		for (const path of this.badges.keys()) {
+			const rowEl = items?.[path] ? this.getRowEl(items[path]) : undefined;
+			rowEl?.querySelector(`.${ExplorerPatcher.BADGE_CLS}`)?.remove();
+		}
+		this.badges.clear();
+	}
+
+	/**
+	 * Badge every folder row with the number of pinned items below it,
+	 * diffed against what is shown like the indicators.
+	 */
+	private updateBadges(items: Record<string, any>): void {
+		const desired = this.plugin.settings.showFolderBadges
+			? this.plugin.pinManager.getPinnedDescendantCounts()
+			: new Map<string, number>();
+
+		for (const path of this.badges.keys()) {
+			if (desired.has(path)) continue;
+			const rowEl = items[path] ? this.getRowEl(items[path]) : undefined;
+			rowEl?.querySelector(`.${ExplorerPatcher.BADGE_CLS}`)?.remove();
+			this.badges.delete(path);
+		}
+
+		for (const [path, count] of desired) {
+			const rowEl = items[path] ? this.getRowEl(items[path]) : undefined;
+			if (!rowEl) {
+				this.badges.delete(path);
+				continue;
 			}
+			const badge = rowEl.querySelector(`.${ExplorerPatcher.BADGE_CLS}`);
+			if (badge && this.badges.get(path) === count) continue;
+			badge?.remove();
+			rowEl.append(
+				createSpan({
+					cls: ExplorerPatcher.BADGE_CLS,
+					text: String(count),
+					attr: { "aria-label": count === 1 ? "1 pinned item inside" : `${count} pinned items inside` },
+				}),
+			);
+			this.badges.set(path, count);
 		}
 	}
 
-	/** Strip all indicators from every item. */
-	removeAllIndicators(): void {
-		const view = this.getExplorerView();
-		const items: Record<string, any> | undefined = view?.fileItems;
-		if (!items) return;
+	/**
+	 * Explorer-wide styling: the row highlight mode as a class, and the
+	 * highlight color as a CSS variable (the theme's accent by default).
+	 */
+	private applyContainerStyle(view: any): void {
+		const el = view?.containerEl;
+		if (!(el instanceof HTMLElement)) return;
+		const { rowHighlight, highlightColor } = this.plugin.settings;
+		el.toggleClass("simple-pin-highlight-background", rowHighlight === "background");
+		el.toggleClass("simple-pin-highlight-accent", rowHighlight === "accent");
+		if (highlightColor) el.setCssProps({ "--simple-pin-color": highlightColor });
+		else el.style.removeProperty("--simple-pin-color");
+	}
+
+	private removeContainerStyle(view: any): void {
+		const el = view?.containerEl;
+		if (!(el instanceof HTMLElement)) return;
+		el.removeClasses(["simple-pin-highlight-background", "simple-pin-highlight-accent"]);
+		el.style.removeProperty("--simple-pin-color");
+	}
+
+	/**
+	 * Path → signature of the styling each pinned row should have.  The
+	 * signature covers everything that gets rendered, so an equal
+	 * signature means the row is still right — for temporary pins that
+	 * includes the time left, so the tooltip follows it.
+	 */
+	private desiredRows(): Map<string, string> {
+		const { showPinIndicator, indicatorIcon, indicatorPosition, showPinLabels } = this.plugin.settings;
+		const base = `${showPinIndicator}|${indicatorIcon}|${indicatorPosition}|${showPinLabels}`;
+		const pm = this.plugin.pinManager;
+		const desired = new Map<string, string>();
+		for (const path of pm.getSunkPaths()) {
+			if (!pm.isPinned(path)) desired.set(path, `${base}|sunk`);
+		}
+		for (const path of pm.getPinnedPaths()) {
+			const pin = pm.getPin(path);
+			const left = pin?.expiresAt === undefined ? "" : moment(pin.expiresAt).fromNow();
+			desired.set(
+				path,
+				`${base}|${pm.getPinSource(path)}|${left}|${pin?.icon ?? ""}|${pin?.color ?? ""}|${pin?.label ?? ""}`,
+			);
+		}
+		return desired;
+	}
+
+	private styleRow(item: any, path: string): void {
+		const rowEl = this.getRowEl(item);
+		if (!rowEl) return;
+		const pm = this.plugin.pinManager;
+		if (!pm.isPinned(path)) {
+			this.styleSunkRow(item, rowEl);
+			return;
+		}
+		rowEl.setAttr(ExplorerPatcher.ATTR, pm.getPinSource(path) ?? "manual");
+
+		const color = pm.getPin(path)?.color;
+		if (color) {
+			rowEl.setCssProps({ "--simple-pin-color": color, "--simple-pin-indicator-color": color });
+		}
 
-		for (const item of Object.values(items)) {
-			if (!item) continue;
-			const el: HTMLElement | undefined =
-				(item as any).selfEl ??
-				(item as any).innerEl ??
-				(item as any).el;
-			el?.querySelector(`.${ExplorerPatcher.CLS}`)?.remove();
+		const { showPinIndicator, showPinLabels } = this.plugin.settings;
+		const label = pm.getPin(path)?.label;
+		if (label && showPinLabels) {
+			(item.innerEl ?? rowEl).append(createSpan({ cls: ExplorerPatcher.LABEL_CLS, text: label }));
 		}
+
+		if (showPinIndicator) this.placeIndicator(item, rowEl, createPinIndicator(this.plugin, path));
+	}
+
+	/** Sunk rows: their own attribute and a down-arrow indicator, no pin styling. */
+	private styleSunkRow(item: any, rowEl: HTMLElement): void {
+		rowEl.setAttr(ExplorerPatcher.SUNK_ATTR, "");
+		if (this.plugin.settings.showPinIndicator) this.placeIndicator(item, rowEl, createSunkIndicator());
+	}
+
+	/** Put an indicator before or after the name, as the settings say. */
+	private placeIndicator(item: any, rowEl: HTMLElement, indicator: HTMLElement): void {
+		if (this.plugin.settings.indicatorPosition === "suffix") {
+			indicator.addClass(`${ExplorerPatcher.CLS}-suffix`);
+			(item.innerEl ?? rowEl).append(indicator);
+		} else {
+			this.getTitleEl(item)?.prepend(indicator);
+		}
+	}
+
+	private clearRow(item: any): void {
+		const rowEl = this.getRowEl(item);
+		if (!rowEl) return;
+		rowEl.removeAttribute(ExplorerPatcher.ATTR);
+		rowEl.removeAttribute(ExplorerPatcher.SUNK_ATTR);
+		rowEl.style.removeProperty("--simple-pin-color");
+		rowEl.style.removeProperty("--simple-pin-indicator-color");
+		rowEl
+			.querySelectorAll(`.${ExplorerPatcher.CLS}, .${ExplorerPatcher.LABEL_CLS}`)
+			.forEach((el) => el.remove());
 	}
 }
@@ -0,0 +1,90 @@
+import { App, Modal, Notice, Setting, TFile, normalizePath } from "obsidian";
+import type SimplePinPlugin from "./main";
+import { parentPath } from "./pin-manager";
+import { serializePins } from "./pin-io";
+
+/**
+ * Exports the active profile's pins in the versioned JSON format,
+ * either to a file in the vault or to the clipboard.
+ */
+export class ExportModal extends Modal {
+	private plugin: SimplePinPlugin;
+	private path = "simple-pin-export.json";
+
+	constructor(app: App, plugin: SimplePinPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle("Export pins");
+
+		const { pins, sunk } = this.plugin.pinManager.getPinSet();
+		const sunkNote = sunk.length > 0 ? ` and ${sunk.length} sunk path(s)` : "";
+		contentEl.createEl("p", {
+			text: `${pins.length} pin(s)${sunkNote} from the "${this.plugin.profiles.getActive().name}" profile.`,
+		});
+
+		new Setting(contentEl)
+			.setName("File in vault")
+			.setDesc("Vault-relative path of the JSON file to write. An existing file is overwritten.")
+			.addText((text) =>
+				text.setValue(this.path).onChange((value) => (this.path = value)),
+			);
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Copy to clipboard").onClick(async () => {
+					await navigator.clipboard.writeText(this.serialize());
+					new Notice("Pins copied to clipboard.");
+					this.close();
+				}),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Save to vault")
+					.setCta()
+					.onClick(async () => {
+						try {
+							const file = await this.writeFile();
+							new Notice(`Pins exported to ${file.path}.`);
+							this.close();
+						} catch (e) {
+							new Notice(`Export failed: ${e instanceof Error ? e.message : String(e)}`);
+						}
+					}),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private serialize(): string {
+		return serializePins(
+			this.plugin.pinManager.getPinSet(),
+			this.plugin.profiles.getActive().name,
+		);
+	}
+
+	/** Create or overwrite the export file, creating its folder if needed. */
+	private async writeFile(): Promise<TFile> {
+		const { vault } = this.app;
+		let path = normalizePath(this.path.trim() || "simple-pin-export.json");
+		if (!path.endsWith(".json")) path += ".json";
+
+		const existing = vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await vault.modify(existing, this.serialize());
+			return existing;
+		}
+		if (existing) throw new Error(`${path} is a folder.`);
+
+		const folder = parentPath(path);
+		if (folder !== "/" && !vault.getAbstractFileByPath(folder)) {
+			await vault.createFolder(folder);
+		}
+		return vault.create(path, this.serialize());
+	}
+}
@@ -0,0 +1,76 @@
+import { TFile } from "obsidian";
+import type SimplePinPlugin from "./main";
+
+/**
+ * Reads and writes the pin flag in a note's frontmatter
+ * (`<frontmatterKey>: true`) for the "frontmatter" storage mode.
+ *
+ * Only markdown files have frontmatter — folders and other files keep
+ * living in plugin data whatever the storage mode.  The flag mirrors
+ * the active profile: switching profiles rewrites the flags of notes
+ * pinned in only one of the two.
+ *
+ * Writes made by the plugin itself are remembered until the metadata
+ * cache reports them back, so `shouldIgnore()` can keep them from
+ * echoing into `PinManager` as if the user had edited the note.
+ */
+export class FrontmatterStore {
+	private plugin: SimplePinPlugin;
+	/** Path → value we just wrote and are waiting to see in the cache */
+	private expected: Map<string, boolean> = new Map();
+
+	constructor(plugin: SimplePinPlugin) {
+		this.plugin = plugin;
+	}
+
+	get enabled(): boolean {
+		return this.plugin.settings.storageMode === "frontmatter";
+	}
+
+	private get key(): string {
+		return this.plugin.settings.frontmatterKey;
+	}
+
+	/** Markdown file at `path`, or null if it can't carry frontmatter. */
+	getNote(path: string): TFile | null {
+		const file = this.plugin.app.vault.getAbstractFileByPath(path);
+		return file instanceof TFile && file.extension === "md" ? file : null;
+	}
+
+	/** Whether the note's frontmatter currently marks it as pinned. */
+	read(file: TFile): boolean {
+		const value: unknown =
+			this.plugin.app.metadataCache.getFileCache(file)?.frontmatter?.[this.key];
+		return value === true || value === "true";
+	}
+
+	/** Set or remove the pin key in a note's frontmatter. */
+	async write(file: TFile, pinned: boolean): Promise<void> {
+		if (this.read(file) === pinned) return;
+		this.expected.set(file.path, pinned);
+		try {
+			await this.plugin.app.fileManager.processFrontMatter(
+				file,
+				(fm: Record<string, unknown>) => {
+					if (pinned) fm[this.key] = true;
+					else delete fm[this.key];
+				},
+			);
+		} catch (e) {
+			this.expected.delete(file.path);
+			console.warn(`[Simple Pin] Could not update frontmatter of ${file.path}:`, e);
+		}
+	}
+
+	/**
+	 * True when a metadata change for `file` is the echo of our own
+	 * write (or a stale event from before it landed) and should not be
+	 * treated as a user edit.
+	 */
+	shouldIgnore(file: TFile): boolean {
+		const want = this.expected.get(file.path);
+		if (want === undefined) return false;
+		if (this.read(file) === want) this.expected.delete(file.path);
+		return true;
+	}
+}
@@ -0,0 +1,134 @@
+import { Keymap, Menu, TAbstractFile, TFile, TFolder, setIcon } from "obsidian";
+import type SimplePinPlugin from "./main";
+
+/**
+ * Optional virtual "Pinned" section rendered at the top of the File
+ * Explorer root.  It holds shortcuts to pins flagged as *global*, so
+ * deeply nested pins are reachable without expanding their parents.
+ *
+ * Shortcuts behave like explorer rows: click opens (Mod-click in a new
+ * tab), right-click shows the regular file menu, and they can be
+ * dragged into editors or onto folders.  The section lives alongside
+ * the in-folder reorder — the pinned items also stay at the top of
+ * their own folders.
+ *
+ * Touches the explorer's container element and the app's drag manager.
+ */
+export class GlobalSection {
+	private plugin: SimplePinPlugin;
+	private sectionEl: HTMLElement | null = null;
+	/** Collapsed state for the session */
+	private collapsed = false;
+
+	private static readonly CLS = "simple-pin-global";
+
+	constructor(plugin: SimplePinPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * (Re)render the section inside the explorer container, or remove it
+	 * when disabled or empty.
+	 */
+	render(containerEl: HTMLElement): void {
+		const paths = this.plugin.pinManager.getGlobalPins();
+		if (!this.plugin.settings.showGlobalSection || paths.length === 0) {
+			this.remove();
+			return;
+		}
+
+		const filesEl = containerEl.querySelector<HTMLElement>(".nav-files-container");
+		if (!filesEl) return;
+
+		if (!this.sectionEl || this.sectionEl.parentElement !== filesEl) {
+			this.remove();
+			this.sectionEl = filesEl.createDiv({ cls: `${GlobalSection.CLS} tree-item` });
+			filesEl.prepend(this.sectionEl);
+		}
+
+		const section = this.sectionEl;
+		section.empty();
+		section.toggleClass("is-collapsed", this.collapsed);
+
+		const header = section.createDiv({
+			cls: `${GlobalSection.CLS}-header tree-item-self is-clickable mod-collapsible`,
+		});
+		const chevron = header.createDiv("tree-item-icon collapse-icon");
+		setIcon(chevron, "right-triangle");
+		chevron.toggleClass("is-collapsed", this.collapsed);
+		header.createDiv({ cls: "tree-item-inner", text: "Pinned" });
+		header.addEventListener("click", () => {
+			this.collapsed = !this.collapsed;
+			this.render(containerEl);
+		});
+
+		if (this.collapsed) return;
+
+		const children = section.createDiv("tree-item-children");
+		for (const path of paths) {
+			const file = this.plugin.app.vault.getAbstractFileByPath(path);
+			if (file) this.renderItem(children, file);
+		}
+	}
+
+	/** Take the section out of the explorer. */
+	remove(): void {
+		this.sectionEl?.remove();
+		this.sectionEl = null;
+	}
+
+	/* ── internal ───────────────────────────────────── */
+
+	private renderItem(parentEl: HTMLElement, file: TAbstractFile): void {
+		const app = this.plugin.app;
+		const itemEl = parentEl.createDiv({
+			cls: `${GlobalSection.CLS}-item tree-item-self is-clickable`,
+			attr: { draggable: "true", "aria-label": file.path },
+		});
+		setIcon(
+			itemEl.createDiv(`${GlobalSection.CLS}-icon tree-item-icon`),
+			file instanceof TFolder ? "folder" : "file",
+		);
+		itemEl.createDiv({
+			cls: "tree-item-inner",
+			text: file instanceof TFile ? file.basename : file.name,
+		});
+
+		itemEl.addEventListener("click", (e) => {
+			if (file instanceof TFile) {
+				void app.workspace.getLeaf(Keymap.isModEvent(e)).openFile(file);
+			} else {
+				this.plugin.revealInExplorer(file);
+			}
+		});
+
+		itemEl.addEventListener("contextmenu", (e) => {
+			e.preventDefault();
+			const menu = new Menu();
+			app.workspace.trigger("file-menu", menu, file, "simple-pin-global");
+			menu.showAtMouseEvent(e);
+		});
+
+		itemEl.addEventListener("dragstart", (e) => {
+			// Hand the drag to Obsidian's drag manager so drops into
+			// editors (links) and onto folders (moves) just work.
+			try {
+				const dm = (app as unknown as { dragManager?: DragManager }).dragManager;
+				const data =
+					file instanceof TFile ? dm?.dragFile?.(e, file)
+					: file instanceof TFolder ? dm?.dragFolder?.(e, file)
+					: null;
+				if (data) dm?.onDragStart?.(e, data);
+			} catch (err) {
+				console.warn("[Simple Pin] drag start failed:", err);
+			}
+		});
+	}
+}
+
+/** The parts of Obsidian's internal drag manager used for shortcuts. */
+interface DragManager {
+	dragFile?(e: DragEvent, file: TFile): unknown;
+	dragFolder?(e: DragEvent, folder: TFolder): unknown;
+	onDragStart?(e: DragEvent, data: unknown): void;
+}
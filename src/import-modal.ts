@@ -0,0 +1,120 @@
+import { App, FuzzySuggestModal, Modal, Notice, Setting, TFile, TextAreaComponent } from "obsidian";
+import type SimplePinPlugin from "./main";
+import { ImportPreviewModal } from "./import-preview-modal";
+import { ImportMode, parsePinExport, planImport } from "./pin-io";
+
+const MODE_LABELS: Record<ImportMode, string> = {
+	merge: "Merge with current pins",
+	replace: "Replace current pins",
+	"dry-run": "Dry run (preview only)",
+};
+
+/**
+ * Collects an export — pasted, or loaded from a JSON file in the vault —
+ * and an import mode, then opens the {@link ImportPreviewModal}.
+ */
+export class ImportModal extends Modal {
+	private plugin: SimplePinPlugin;
+	private mode: ImportMode = "merge";
+	private textArea!: TextAreaComponent;
+
+	constructor(app: App, plugin: SimplePinPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle("Import pins");
+
+		new Setting(contentEl)
+			.setName("Source")
+			.setDesc("Paste an export below, or load one from a JSON file in the vault.")
+			.addButton((btn) =>
+				btn.setButtonText("Choose file…").onClick(() => {
+					new JsonFileSuggestModal(this.app, (file) => {
+						void this.app.vault.cachedRead(file).then((text) => {
+							this.textArea.setValue(text);
+						});
+					}).open();
+				}),
+			);
+
+		this.textArea = new TextAreaComponent(contentEl).setPlaceholder(
+			'{ "format": "simple-pin", "version": 1, "pins": [...] }',
+		);
+		this.textArea.inputEl.addClass("simple-pin-import-input");
+
+		new Setting(contentEl).setName("Mode").addDropdown((dd) =>
+			dd
+				.addOptions(MODE_LABELS)
+				.setValue(this.mode)
+				.onChange((value) => (this.mode = value as ImportMode)),
+		);
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText("Preview")
+				.setCta()
+				.onClick(() => this.preview()),
+		);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private preview(): void {
+		const raw = this.textArea.getValue();
+		if (!raw.trim()) {
+			new Notice("Paste an export or choose a file first.");
+			return;
+		}
+
+		let incoming;
+		try {
+			incoming = parsePinExport(raw);
+		} catch (e) {
+			new Notice(`Import failed: ${e instanceof Error ? e.message : String(e)}`);
+			return;
+		}
+
+		const pm = this.plugin.pinManager;
+		const plan = planImport(pm.getPinSet(), incoming, this.mode, this.app.vault);
+		this.close();
+		new ImportPreviewModal(this.app, plan, () => {
+			void pm.applyImport(plan).then(() => {
+				this.plugin.refreshExplorer();
+				const sunk = plan.sink.length + plan.unsink.length > 0
+					? ` Sunk: ${plan.sink.length} added, ${plan.unsink.length} removed.`
+					: "";
+				new Notice(
+					`Imported pins: ${plan.add.length} added, ${plan.update.length} updated, ${plan.remove.length} removed.${sunk}`,
+				);
+			});
+		}).open();
+	}
+}
+
+/** Picks a `.json` file from the vault. */
+class JsonFileSuggestModal extends FuzzySuggestModal<TFile> {
+	private onChoose: (file: TFile) => void;
+
+	constructor(app: App, onChoose: (file: TFile) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder("Choose a JSON export…");
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getFiles().filter((f) => f.extension === "json");
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onChoose(file);
+	}
+}
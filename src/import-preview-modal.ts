@@ -0,0 +1,72 @@
+import { App, Modal, Setting } from "obsidian";
+import type { ImportPlan } from "./pin-io";
+
+/** How many paths each preview list shows before summarising the rest. */
+const MAX_LISTED = 50;
+
+/**
+ * Shows what an import would add, update and remove, and which paths
+ * don't exist in this vault.  `onConfirm` runs only when the user
+ * applies the plan; dry runs can only be closed.
+ */
+export class ImportPreviewModal extends Modal {
+	private plan: ImportPlan;
+	private onConfirm: () => void;
+
+	constructor(app: App, plan: ImportPlan, onConfirm: () => void) {
+		super(app);
+		this.plan = plan;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const { plan } = this;
+		this.setTitle(plan.mode === "dry-run" ? "Import preview (dry run)" : "Import preview");
+		contentEl.addClass("simple-pin-import-preview");
+
+		const changes =
+			plan.add.length + plan.update.length + plan.remove.length + plan.sink.length + plan.unsink.length;
+		if (changes === 0) {
+			contentEl.createEl("p", { text: "The import would not change any pins." });
+		}
+
+		this.renderList("Will be pinned", plan.add.map((r) => r.path));
+		this.renderList("Will be updated", plan.update.map((r) => r.path));
+		this.renderList("Will be unpinned", plan.remove);
+		this.renderList("Will be sunk to the bottom", plan.sink);
+		this.renderList("Will no longer be sunk", plan.unsink);
+		this.renderList("Not found in this vault", plan.missing, "mod-warning");
+
+		const buttons = new Setting(contentEl);
+		if (plan.mode === "dry-run" || changes === 0) {
+			buttons.addButton((btn) => btn.setButtonText("Close").onClick(() => this.close()));
+			return;
+		}
+		buttons
+			.addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+			.addButton((btn) => {
+				btn.setButtonText(plan.mode === "replace" ? "Replace pins" : "Import").onClick(() => {
+					this.close();
+					this.onConfirm();
+				});
+				if (plan.remove.length > 0) btn.setWarning();
+				else btn.setCta();
+			});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderList(title: string, paths: string[], cls = ""): void {
+		if (paths.length === 0) return;
+		const { contentEl } = this;
+		contentEl.createEl("h4", { text: `${title} (${paths.length})`, cls });
+		const ul = contentEl.createEl("ul", { cls });
+		for (const path of paths.slice(0, MAX_LISTED)) ul.createEl("li", { text: path });
+		if (paths.length > MAX_LISTED) {
+			ul.createEl("li", { text: `…and ${paths.length - MAX_LISTED} more` });
+		}
+	}
+}
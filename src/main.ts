@@ -1,71 +1,157 @@
-import { Notice, Plugin, TAbstractFile, TFile, Menu } from "obsidian";
-import { DEFAULT_SETTINGS, SimplePinSettings } from "./types";
-import { PinManager } from "./pin-manager";
+import { Notice, Plugin, TAbstractFile, TFile, TFolder, Menu, moment, normalizePath } from "obsidian";
+import {
+	DEFAULT_SETTINGS,
+	PinStorageMode,
+	SimplePinSettings,
+} from "./types";
+import { PinExpiry, PinManager, parentPath } from "./pin-manager";
+import { PinApi } from "./api";
+import { ConfirmModal } from "./confirm-modal";
+import { ExportModal } from "./export-modal";
+import { ImportModal } from "./import-modal";
+import { loadSettingsData } from "./migrations";
+import { mergeSettings } from "./pin-merge";
+import { PinMatchingModal } from "./pin-matching-modal";
+import { PinHistoryModal } from "./pin-history-modal";
+import { PinLabelModal } from "./pin-label-modal";
+import { PinStyleModal } from "./pin-style-modal";
+import { PinUntilModal } from "./pin-until-modal";
+import { PinnedFileSuggestModal } from "./pinned-file-suggest-modal";
+import { PinnedView, VIEW_TYPE_PINNED } from "./pinned-view";
+import { PinReconciler, StaleResolution } from "./pin-reconciler";
+import { ProfileManager } from "./profile-manager";
+import { ProfileSuggestModal } from "./profile-suggest-modal";
+import { QuickSwitcherBooster } from "./quick-switcher-booster";
+import { ReconcileModal } from "./reconcile-modal";
 import { ExplorerPatcher } from "./explorer-patcher";
 import { SimplePinSettingTab } from "./settings";
+import { pinnedSortModeFor, sortsByModifiedTime } from "./sort-modes";
+import { WorkspaceIndicators } from "./workspace-indicators";
 
 export default class SimplePinPlugin extends Plugin {
 	settings: SimplePinSettings = { ...DEFAULT_SETTINGS };
 	pinManager!: PinManager;
+	profiles!: ProfileManager;
 	private patcher!: ExplorerPatcher;
+	private reconciler!: PinReconciler;
+	quickSwitcher!: QuickSwitcherBooster;
+	/** Pin state in view headers, the status bar, tabs and side panes */
+	workspaceIndicators!: WorkspaceIndicators;
+	/** Public API for other plugins (`SimplePinApi` in api.ts) */
+	api!: PinApi;
+	/** Workspace layout seen at the last layout-change */
+	private lastWorkspace: string | null = null;
 
 	/* ── lifecycle ─────────────────────────────────── */
 
 	async onload() {
 		await this.loadSettings();
 
+		this.profiles = new ProfileManager(this);
 		this.pinManager = new PinManager(this);
+		await this.pinManager.loadHistory();
+		this.reconciler = new PinReconciler(this);
+		this.quickSwitcher = new QuickSwitcherBooster(this);
+		this.api = new PinApi(this);
 		this.patcher = new ExplorerPatcher(this);
+		this.workspaceIndicators = new WorkspaceIndicators(this);
+
+		/* ── "Pinned" sidebar view ───────────────────── */
+		this.registerView(VIEW_TYPE_PINNED, (leaf) => new PinnedView(leaf, this));
+		this.registerHoverLinkSource(VIEW_TYPE_PINNED, {
+			display: "Simple Pin: pinned view",
+			defaultMod: false,
+		});
 
 		// Wait for layout to be ready before patching the explorer
 		this.app.workspace.onLayoutReady(() => {
+			this.pinManager.reloadRules();
 			this.patcher.patchAndRefresh();
+			this.quickSwitcher.update();
+			this.workspaceIndicators.register();
+			void this.pinManager.syncAllFromFrontmatter().then(async (changed) => {
+				if (changed) this.refreshExplorer();
+				await this.reconcilePins(false);
+				await this.pinManager.refreshFingerprints();
+			});
+
+			// Registered here so the startup flood of create events is skipped
+			this.registerEvent(
+				this.app.vault.on("create", (file: TAbstractFile) => {
+					if (this.pinManager.recheckRules(file)) this.refreshExplorer();
+				}),
+			);
 		});
 
-		// Re-patch when the explorer view is opened / restored
+		// Re-patch when the explorer view is opened / restored, and follow
+		// workspace layouts that are bound to a pin profile
 		this.registerEvent(
 			this.app.workspace.on("layout-change", () => {
 				this.patcher.patchAndRefresh();
+				this.followWorkspace();
 			}),
 		);
 
 		/* ── file-menu (right-click context menu) ────── */
 		this.registerEvent(
 			this.app.workspace.on("file-menu", (menu: Menu, file: TAbstractFile) => {
-				if (!(file instanceof TFile)) return;
-
-				const pinned = this.pinManager.isPinned(file.path);
-
-				menu.addItem((item) => {
-					item
-						.setTitle(pinned ? "Unpin" : "Pin")
-						.setIcon(pinned ? "pin-off" : "pin")
-						.onClick(async () => {
-							await this.pinManager.toggle(file.path);
-							this.refreshExplorer();
-							new Notice(
-								this.pinManager.isPinned(file.path)
-									? `Pinned: ${file.name}`
-									: `Unpinned: ${file.name}`,
-							);
-						});
-				});
+				if (!this.isPinnable(file)) return;
+				this.addPinItems(menu, file);
+				this.addSinkItems(menu, file);
+				if (file instanceof TFolder) this.addFolderBulkItems(menu, file);
 			}),
 		);
 
+		/* ── files-menu (multi-selection context menu) ── */
+		this.registerEvent(
+			this.app.workspace.on("files-menu", (menu: Menu, files: TAbstractFile[]) => {
+				this.addSelectionItems(menu, files.filter((f) => this.isPinnable(f)));
+			}),
+		);
+
+		/* ── temporary pins: expire on load + every minute ── */
+		await this.pruneExpiredPins();
+		this.registerInterval(
+			window.setInterval(() => void this.pruneExpiredPins(), 60 * 1000),
+		);
+
 		/* ── vault events: rename / delete ───────────── */
 		this.registerEvent(
 			this.app.vault.on("rename", (file: TAbstractFile, oldPath: string) => {
-				void this.pinManager.handleRename(oldPath, file.path).then(() => {
-					this.refreshExplorer();
+				// Only events that touched a pin refresh — a folder move fires
+				// one event per descendant
+				void this.pinManager.handleRename(oldPath, file.path).then((moved) => {
+					const ruleChanged = this.pinManager.recheckRules(file);
+					if (moved || ruleChanged) this.refreshExplorer();
 				});
 			}),
 		);
 
+		/* ── metadata changes: pin rules + frontmatter ── */
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file: TFile) => {
+				const ruleChanged = this.pinManager.recheckRules(file);
+				void this.pinManager.syncFromFrontmatter(file).then((synced) => {
+					if (ruleChanged || synced) this.refreshExplorer();
+				});
+			}),
+		);
+
+		// Folders sorted by modified time (by override, or their pinned
+		// group) move an edited file themselves
+		this.registerEvent(
+			this.app.vault.on("modify", (file: TAbstractFile) => {
+				const folder = parentPath(file.path);
+				if (sortsByModifiedTime(this.settings, folder, this.pinManager.isPinned(file.path))) {
+					this.patcher.resortFolder(folder);
+				}
+			}),
+		);
+
 		this.registerEvent(
 			this.app.vault.on("delete", (file: TAbstractFile) => {
-				void this.pinManager.handleDelete(file.path).then(() => {
-					this.refreshExplorer();
+				void this.pinManager.handleDelete(file.path).then((removed) => {
+					if (removed) this.refreshExplorer();
 				});
 			}),
 		);
@@ -77,7 +163,7 @@ export default class SimplePinPlugin extends Plugin {
 			checkCallback: (checking) => {
 				const file = this.app.workspace.getActiveFile();
 				if (!file) return false;
-				if (this.pinManager.isPinned(file.path)) return false;
+				if (this.pinManager.isManuallyPinned(file.path)) return false;
 				if (!checking) {
 					void this.pinManager.pin(file.path).then(() => {
 						this.refreshExplorer();
@@ -94,7 +180,7 @@ export default class SimplePinPlugin extends Plugin {
 			checkCallback: (checking) => {
 				const file = this.app.workspace.getActiveFile();
 				if (!file) return false;
-				if (!this.pinManager.isPinned(file.path)) return false;
+				if (!this.pinManager.isManuallyPinned(file.path)) return false;
 				if (!checking) {
 					void this.pinManager.unpin(file.path).then(() => {
 						this.refreshExplorer();
@@ -111,13 +197,24 @@ export default class SimplePinPlugin extends Plugin {
 			checkCallback: (checking) => {
 				const file = this.app.workspace.getActiveFile();
 				if (!file) return false;
+				if (!checking) void this.togglePinWithNotice(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "toggle-pin-current-folder",
+			name: "Toggle pin current folder",
+			checkCallback: (checking) => {
+				const folder = this.app.workspace.getActiveFile()?.parent;
+				if (!folder || !this.isPinnable(folder)) return false;
 				if (!checking) {
-					void this.pinManager.toggle(file.path).then((nowPinned) => {
+					void this.pinManager.toggle(folder.path).then((nowPinned) => {
 						this.refreshExplorer();
 						new Notice(
 							nowPinned
-								? `Pinned: ${file.name}`
-								: `Unpinned: ${file.name}`,
+								? `Pinned folder: ${folder.name}`
+								: `Unpinned folder: ${folder.name}`,
 						);
 					});
 				}
@@ -125,27 +222,635 @@ export default class SimplePinPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "sink-current-file",
+			name: "Sink current file to bottom",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || this.pinManager.isSunk(file.path)) return false;
+				if (this.pinManager.getPinSource(file.path) === "rule") return false;
+				if (!checking) void this.setSunk(file, true);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "unsink-current-file",
+			name: "Unsink current file",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.pinManager.isSunk(file.path)) return false;
+				if (!checking) void this.setSunk(file, false);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "move-pin-up",
+			name: "Move pin up",
+			checkCallback: (checking) => this.moveActivePin(-1, checking),
+		});
+
+		this.addCommand({
+			id: "move-pin-down",
+			name: "Move pin down",
+			checkCallback: (checking) => this.moveActivePin(1, checking),
+		});
+
+		this.addCommand({
+			id: "edit-pin-label",
+			name: "Edit pin label of current file",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.pinManager.isManuallyPinned(file.path)) return false;
+				if (!checking) this.editPinLabel(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "move-pins-to-frontmatter",
+			name: "Move pins to frontmatter",
+			checkCallback: (checking) => {
+				if (this.settings.storageMode === "frontmatter") return false;
+				if (!checking) void this.moveStorage("frontmatter");
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "move-pins-to-plugin-data",
+			name: "Move pins back to plugin data",
+			checkCallback: (checking) => {
+				if (this.settings.storageMode === "data") return false;
+				if (!checking) void this.moveStorage("data");
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "export-pins",
+			name: "Export pins…",
+			callback: () => new ExportModal(this.app, this).open(),
+		});
+
+		this.addCommand({
+			id: "import-pins",
+			name: "Import pins…",
+			callback: () => new ImportModal(this.app, this).open(),
+		});
+
+		this.addCommand({
+			id: "reconcile-pins",
+			name: "Find missing pins…",
+			callback: () => void this.reconcilePins(true),
+		});
+
+		this.addCommand({
+			id: "switch-pin-profile",
+			name: "Switch pin profile",
+			checkCallback: (checking) => {
+				if (this.profiles.list().length < 2) return false;
+				if (!checking) new ProfileSuggestModal(this.app, this.profiles).open();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "open-pinned-file",
+			name: "Open pinned file…",
+			callback: () => new PinnedFileSuggestModal(this.app, this.pinManager).open(),
+		});
+
+		// Hotkey slots, in the order the explorer shows pinned files
+		for (let n = 1; n <= 9; n++) {
+			this.addCommand({
+				id: `open-pinned-file-${n}`,
+				name: `Open pinned file ${n}`,
+				checkCallback: (checking) => this.openPinnedFile(n - 1, checking),
+			});
+		}
+
+		this.addCommand({
+			id: "next-pinned-file-in-folder",
+			name: "Next pinned file in current folder",
+			checkCallback: (checking) => this.cyclePinnedInFolder(1, checking),
+		});
+
+		this.addCommand({
+			id: "previous-pinned-file-in-folder",
+			name: "Previous pinned file in current folder",
+			checkCallback: (checking) => this.cyclePinnedInFolder(-1, checking),
+		});
+
+		this.addCommand({
+			id: "reveal-pinned-files",
+			name: "Reveal pinned files",
+			checkCallback: (checking) => {
+				if (this.pinManager.getPinnedFilesInOrder().length === 0) return false;
+				if (!checking) this.revealPinnedFiles();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "open-pinned-view",
+			name: "Open pinned files view",
+			callback: () => void this.activatePinnedView(),
+		});
+
+		this.addCommand({
+			id: "undo-pin-change",
+			name: "Undo last pin change",
+			checkCallback: (checking) => {
+				if (!this.pinManager.getUndoLabel()) return false;
+				if (!checking) void this.undoPinChange(false);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "redo-pin-change",
+			name: "Redo pin change",
+			checkCallback: (checking) => {
+				if (!this.pinManager.getRedoLabel()) return false;
+				if (!checking) void this.undoPinChange(true);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "open-pin-history",
+			name: "Open pin history",
+			callback: () => new PinHistoryModal(this).open(),
+		});
+
 		/* ── settings tab ────────────────────────────── */
 		this.addSettingTab(new SimplePinSettingTab(this.app, this));
 	}
 
 	onunload() {
 		this.patcher.unpatch();
+		this.quickSwitcher.unpatch();
+		this.workspaceIndicators.remove();
+		this.api.clear();
 	}
 
 	/* ── settings persistence ─────────────────────── */
 
 	async loadSettings() {
-		const data = (await this.loadData()) as Partial<SimplePinSettings> | null;
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		const { settings, changed } = await loadSettingsData(
+			await this.loadData(),
+			(version, data) => this.backupSettings(version, data),
+		);
+		this.settings = settings;
+		if (changed) await this.saveSettings();
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
 
+	/**
+	 * Called by Obsidian when data.json was changed on disk by something
+	 * else (Sync, git, another device).  Merges the pins on disk with the
+	 * ones in memory per pin instead of overwriting either side, then
+	 * writes the result back if it differs from what is on disk.
+	 */
+	async onExternalSettingsChange() {
+		const { settings: remote } = await loadSettingsData(
+			await this.loadData(),
+			(version, data) => this.backupSettings(version, data),
+		);
+		const merged = mergeSettings(this.settings, remote);
+		this.settings = merged;
+		if (JSON.stringify(merged) !== JSON.stringify(remote)) await this.saveSettings();
+
+		this.pinManager.reload();
+		this.pinManager.reloadRules();
+		this.quickSwitcher.update();
+		this.refreshExplorer();
+	}
+
 	/* ── helpers ───────────────────────────────────── */
 
+	/** Keep a copy of the stored data before migrating it away from `version`. */
+	private async backupSettings(version: number, data: unknown): Promise<void> {
+		const path = normalizePath(`${this.manifest.dir ?? ""}/data.backup-v${version}.json`);
+		try {
+			await this.app.vault.adapter.write(path, JSON.stringify(data, null, 2));
+		} catch (e) {
+			console.warn(`[Simple Pin] Could not back up settings to ${path}:`, e);
+		}
+	}
+
+	/** Switch profiles when a newly loaded workspace layout is bound to one. */
+	private followWorkspace(): void {
+		const name = this.profiles.getLoadedWorkspace();
+		if (!name || name === this.lastWorkspace) return;
+		this.lastWorkspace = name;
+		const profile = this.profiles.findByWorkspace(name);
+		if (!profile) return;
+		void this.profiles.switchTo(profile.id).then((switched) => {
+			if (switched) new Notice(`Pin profile: ${profile.name}`);
+		});
+	}
+
+	/** Toggle a manual pin and say which way it went. */
+	async togglePinWithNotice(file: TAbstractFile): Promise<void> {
+		const nowPinned = await this.pinManager.toggle(file.path);
+		this.refreshExplorer();
+		new Notice(nowPinned ? `Pinned: ${file.name}` : `Unpinned: ${file.name}`);
+	}
+
+	/** Reveal the "Pinned" view, creating it in the right sidebar if needed. */
+	async activatePinnedView(): Promise<void> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_PINNED)[0];
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false) ?? workspace.getLeaf("tab");
+			await leaf.setViewState({ type: VIEW_TYPE_PINNED, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	/** Run the one-shot storage migration in either direction. */
+	async moveStorage(mode: PinStorageMode): Promise<void> {
+		const key = this.settings.frontmatterKey;
+		if (mode === "frontmatter") {
+			const count = await this.pinManager.moveToFrontmatter();
+			new Notice(`Wrote "${key}: true" to ${count} pinned note(s).`);
+		} else {
+			const count = await this.pinManager.moveToPluginData();
+			new Notice(`Removed "${key}" from ${count} pinned note(s).`);
+		}
+	}
+
+	/** Pin / Unpin (+ temporary pin choices) for a single file or folder. */
+	private addPinItems(menu: Menu, file: TFile | TFolder): void {
+		const pinned = this.pinManager.isManuallyPinned(file.path);
+
+		if (!pinned && this.pinManager.getPinSource(file.path) === "rule") {
+			menu.addItem((item) => {
+				item.setTitle("Pinned by rule").setIcon("pin").setDisabled(true);
+			});
+			return;
+		}
+
+		menu.addItem((item) => {
+			item
+				.setTitle(pinned ? "Unpin" : "Pin")
+				.setIcon(pinned ? "pin-off" : "pin")
+				.onClick(() => void this.togglePinWithNotice(file));
+		});
+
+		if (this.settings.showGlobalSection) {
+			const global = !!this.pinManager.getPin(file.path)?.global;
+			menu.addItem((item) => {
+				item
+					.setTitle(global ? "Remove from global pinned section" : "Show in global pinned section")
+					.setIcon(global ? "pin-off" : "pin")
+					.onClick(async () => {
+						await this.pinManager.setGlobal(file.path, !global);
+						this.refreshExplorer();
+					});
+			});
+		}
+
+		if (!pinned) {
+			this.addTemporaryPinItems(menu, file);
+			return;
+		}
+		if (this.pinManager.getPin(file.path)?.expiresAt !== undefined) {
+			menu.addItem((item) => {
+				item
+					.setTitle("Keep pinned permanently")
+					.setIcon("pin")
+					.onClick(() => this.pinWithNotice(file));
+			});
+		}
+		menu.addItem((item) => {
+			item
+				.setTitle(this.pinManager.getPin(file.path)?.label ? "Edit pin label…" : "Add pin label…")
+				.setIcon("tag")
+				.onClick(() => this.editPinLabel(file));
+		});
+		menu.addItem((item) => {
+			item
+				.setTitle("Customize pin…")
+				.setIcon("palette")
+				.onClick(() => {
+					const pin = this.pinManager.getPin(file.path);
+					new PinStyleModal(this.app, file.name, { icon: pin?.icon, color: pin?.color }, (style) => {
+						void this.pinManager.setStyle(file.path, style).then(() => this.refreshExplorer());
+					}).open();
+				});
+		});
+	}
+
+	/**
+	 * Sink to bottom / Unsink for a single file or folder.  Rule pins
+	 * can't be sunk — the rule would keep them on top.
+	 */
+	private addSinkItems(menu: Menu, file: TFile | TFolder): void {
+		const sunk = this.pinManager.isSunk(file.path);
+		if (!sunk && this.pinManager.getPinSource(file.path) === "rule") return;
+		menu.addItem((item) => {
+			item
+				.setTitle(sunk ? "Unsink" : "Sink to bottom")
+				.setIcon(sunk ? "arrow-up-from-line" : "arrow-down-to-line")
+				.onClick(() => this.setSunk(file, !sunk));
+		});
+	}
+
+	/** Sink or unsink one item, with a notice. */
+	private async setSunk(file: TAbstractFile, sunk: boolean): Promise<void> {
+		if (sunk) await this.pinManager.sink(file.path);
+		else await this.pinManager.unsink(file.path);
+		this.refreshExplorer();
+		new Notice(sunk ? `Sunk to bottom: ${file.name}` : `Unsunk: ${file.name}`);
+	}
+
+	/** Bulk actions on a folder's contents. */
+	private addFolderBulkItems(menu: Menu, folder: TFolder): void {
+		const pm = this.pinManager;
+		const directFiles = folder.children.filter(
+			(f): f is TFile => f instanceof TFile && !pm.isManuallyPinned(f.path),
+		);
+		const pinnedInside = pm.getPinnedDescendants(folder.path);
+
+		if (directFiles.length > 0) {
+			menu.addItem((item) => {
+				item
+					.setTitle("Pin all files in folder")
+					.setIcon("pin")
+					.onClick(() => this.bulkPin(directFiles.map((f) => f.path)));
+			});
+		}
+		if (pinnedInside.length > 0) {
+			menu.addItem((item) => {
+				item
+					.setTitle("Unpin all in folder (recursive)")
+					.setIcon("pin-off")
+					.onClick(() => this.bulkUnpin(pinnedInside));
+			});
+		}
+		if (this.pinnedFilesUnder(folder).length > 0) {
+			menu.addItem((item) => {
+				item
+					.setTitle("Reveal pinned files")
+					.setIcon("list-tree")
+					.onClick(() => this.revealPinnedFiles(folder));
+			});
+		}
+		menu.addItem((item) => {
+			item
+				.setTitle("Pin files matching…")
+				.setIcon("list-filter")
+				.onClick(() => {
+					new PinMatchingModal(this.app, folder, (paths) => {
+						void this.bulkPin(paths);
+					}).open();
+				});
+		});
+	}
+
+	/** Pin selected / Unpin selected for a multi-selection. */
+	private addSelectionItems(menu: Menu, files: (TFile | TFolder)[]): void {
+		const pm = this.pinManager;
+		const toPin = files.filter((f) => !pm.isManuallyPinned(f.path));
+		const toUnpin = files.filter((f) => pm.isManuallyPinned(f.path));
+
+		if (toPin.length > 0) {
+			menu.addItem((item) => {
+				item
+					.setTitle(`Pin selected (${toPin.length})`)
+					.setIcon("pin")
+					.onClick(() => this.bulkPin(toPin.map((f) => f.path)));
+			});
+		}
+		if (toUnpin.length > 0) {
+			menu.addItem((item) => {
+				item
+					.setTitle(`Unpin selected (${toUnpin.length})`)
+					.setIcon("pin-off")
+					.onClick(() => this.bulkUnpin(toUnpin.map((f) => f.path)));
+			});
+		}
+	}
+
+	/** Pin many paths with one save and one summary notice. */
+	private async bulkPin(paths: string[]): Promise<void> {
+		const count = await this.pinManager.pinMany(paths);
+		this.refreshExplorer();
+		new Notice(count > 0 ? `Pinned ${count} item(s).` : "Nothing new to pin.");
+	}
+
+	/** Unpin many paths with one save and one summary notice, after asking. */
+	private bulkUnpin(paths: string[]): void {
+		const unpin = async () => {
+			const count = await this.pinManager.unpinMany(paths);
+			this.refreshExplorer();
+			new Notice(count > 0 ? `Unpinned ${count} item(s).` : "Nothing to unpin.");
+		};
+		if (paths.length < 2) {
+			void unpin();
+			return;
+		}
+		new ConfirmModal(
+			this.app,
+			"Unpin items",
+			`Unpin ${paths.length} items? "Undo last pin change" brings them back.`,
+			"Unpin",
+			() => void unpin(),
+		).open();
+	}
+
+	/** Undo (or redo) the last pin change, with a notice. */
+	private async undoPinChange(redo: boolean): Promise<void> {
+		const label = redo ? await this.pinManager.redo() : await this.pinManager.undo();
+		if (!label) return;
+		this.refreshExplorer();
+		new Notice(`${redo ? "Redid" : "Undid"}: ${label}`);
+	}
+
+	/** Ask for a new label for a manual pin and save it. */
+	private editPinLabel(file: TAbstractFile): void {
+		const current = this.pinManager.getPin(file.path)?.label ?? "";
+		new PinLabelModal(this.app, file.name, current, (label) => {
+			void this.pinManager.setLabel(file.path, label).then(() => this.refreshExplorer());
+		}).open();
+	}
+
+	/** "Pin for 1 day / 1 week / until…" entries for an unpinned item. */
+	private addTemporaryPinItems(menu: Menu, file: TFile | TFolder): void {
+		const DAY = 24 * 60 * 60 * 1000;
+		const choices: [string, number][] = [
+			["Pin for 1 day", DAY],
+			["Pin for 1 week", 7 * DAY],
+		];
+		for (const [title, durationMs] of choices) {
+			menu.addItem((item) => {
+				item
+					.setTitle(title)
+					.setIcon("timer")
+					.onClick(() => this.pinWithNotice(file, { durationMs }));
+			});
+		}
+		menu.addItem((item) => {
+			item
+				.setTitle("Pin until…")
+				.setIcon("calendar-clock")
+				.onClick(() => {
+					new PinUntilModal(this.app, file.name, (until) => {
+						void this.pinWithNotice(file, { until });
+					}).open();
+				});
+		});
+	}
+
+	/** Pin (or re-pin with a new expiry), refresh, and confirm. */
+	private async pinWithNotice(file: TFile | TFolder, expiry?: PinExpiry): Promise<void> {
+		await this.pinManager.pin(file.path, expiry);
+		this.refreshExplorer();
+		const expiresAt = this.pinManager.getPin(file.path)?.expiresAt;
+		new Notice(
+			expiresAt === undefined
+				? `Pinned: ${file.name}`
+				: `Pinned: ${file.name} (unpins ${moment(expiresAt).fromNow()})`,
+		);
+	}
+
+	/**
+	 * Drop temporary pins that have run out, and let the ones left
+	 * redraw their "Unpins in …" tooltips.
+	 */
+	private async pruneExpiredPins(): Promise<void> {
+		const expired = await this.pinManager.pruneExpired();
+		if (expired.length === 0) {
+			this.patcher.updateIndicators();
+			this.workspaceIndicators.schedule();
+			return;
+		}
+		this.refreshExplorer();
+		new Notice(`${expired.length} temporary pin(s) expired.`);
+	}
+
+	/**
+	 * Look for pins whose files went missing while the plugin wasn't
+	 * running.  From the command the review modal opens directly; at
+	 * startup a notice offers it instead.
+	 */
+	private async reconcilePins(fromCommand: boolean): Promise<void> {
+		const stale = await this.reconciler.findStale();
+		if (stale.length === 0) {
+			if (fromCommand) new Notice("No missing pins.");
+			return;
+		}
+		const review = () =>
+			new ReconcileModal(this.app, stale, (d) => void this.applyReconcile(d)).open();
+		if (fromCommand) {
+			review();
+			return;
+		}
+		const notice = new Notice(
+			`${stale.length} pin(s) point to missing files. Click to review.`,
+			10000,
+		);
+		notice.messageEl.addEventListener("click", review);
+	}
+
+	private async applyReconcile(decisions: Map<string, StaleResolution>): Promise<void> {
+		const relinks: { from: string; to: string }[] = [];
+		const drops: string[] = [];
+		for (const [path, d] of decisions) {
+			if (d.action === "relink") relinks.push({ from: path, to: d.to });
+			else if (d.action === "drop") drops.push(path);
+		}
+		if (relinks.length === 0 && drops.length === 0) return;
+		await this.pinManager.reconcile(relinks, drops);
+		this.refreshExplorer();
+		new Notice(`Relinked ${relinks.length} pin(s), dropped ${drops.length}.`);
+	}
+
+	/** Shared checkCallback for the "Open pinned file 1…9" commands. */
+	private openPinnedFile(index: number, checking: boolean): boolean {
+		const path = this.pinManager.getPinnedFilesInOrder()[index];
+		const file = path === undefined ? null : this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) return false;
+		if (!checking) void this.app.workspace.getLeaf(false).openFile(file);
+		return true;
+	}
+
+	/**
+	 * Shared checkCallback for "Next/previous pinned file in current
+	 * folder".  Cycles through the folder's pinned files; from an
+	 * unpinned file it starts at the first (or last) one.
+	 */
+	private cyclePinnedInFolder(delta: number, checking: boolean): boolean {
+		const active = this.app.workspace.getActiveFile();
+		if (!active) return false;
+		const siblings = this.pinManager.getPinnedFilesIn(active.parent?.path ?? "/");
+		const index = siblings.indexOf(active.path);
+		if (siblings.length === 0 || (index !== -1 && siblings.length === 1)) return false;
+		if (checking) return true;
+
+		const target =
+			index === -1
+				? delta > 0 ? 0 : siblings.length - 1
+				: (index + delta + siblings.length) % siblings.length;
+		const file = this.app.vault.getAbstractFileByPath(siblings[target] ?? "");
+		if (file instanceof TFile) void this.app.workspace.getLeaf(false).openFile(file);
+		return true;
+	}
+
+	/** Shared checkCallback for the "Move pin up/down" commands. */
+	private moveActivePin(delta: number, checking: boolean): boolean {
+		const file = this.app.workspace.getActiveFile();
+		if (!file) return false;
+		const index = this.pinManager.getPinIndex(file.path);
+		if (index === -1) return false;
+		if (pinnedSortModeFor(this.settings, parentPath(file.path)) !== "manual") return false;
+		const count = this.pinManager.getFolderOrder(file.parent?.path ?? "/").length;
+		const target = index + delta;
+		if (target < 0 || target >= count) return false;
+		if (!checking) {
+			void this.pinManager.move(file.path, delta).then(() => {
+				this.refreshExplorer();
+			});
+		}
+		return true;
+	}
+
+	/** Files and folders can be pinned — everything except the vault root. */
+	isPinnable(file: TAbstractFile): file is TFile | TFolder {
+		if (file instanceof TFile) return true;
+		return file instanceof TFolder && !file.isRoot();
+	}
+
+	revealInExplorer(file: TAbstractFile): void {
+		this.patcher.reveal(file);
+	}
+
+	/**
+	 * Expand just the folders needed to show every pinned file (in
+	 * `folder`, or the whole vault) and scroll to the first one.
+	 */
+	revealPinnedFiles(folder?: TFolder): void {
+		const files = this.pinnedFilesUnder(folder);
+		if (files.length === 0) {
+			new Notice(folder ? `No pinned files in ${folder.name}.` : "No pinned files.");
+			return;
+		}
+		this.patcher.revealPaths(files);
+	}
+
+	/** Pinned files in `folder` at any depth (the whole vault without one), in explorer order. */
+	private pinnedFilesUnder(folder?: TFolder): string[] {
+		const prefix = folder ? folder.path + "/" : "";
+		return this.pinManager.getPinnedFilesInOrder().filter((p) => p.startsWith(prefix));
+	}
+
 	refreshExplorer(): void {
 		this.patcher.patchAndRefresh();
 	}
@@ -0,0 +1,343 @@
+import {
+	DEFAULT_SETTINGS,
+	FolderSort,
+	PinProfile,
+	PinRecord,
+	PinRule,
+	QuarantinedEntry,
+	SimplePinSettings,
+} from "./types";
+import { parentPath } from "./pin-manager";
+import { ProfileManager } from "./profile-manager";
+import { isExplorerSortOrder, isPinnedSortMode } from "./sort-modes";
+
+/**
+ * Version of the settings shape written by this build.
+ *
+ * History:
+ * - 0: flat `pinnedPaths: string[]` (no `schemaVersion` stored)
+ * - 1: `pins` map of parent folder → ordered paths
+ * - 2: `pins` lists hold {@link PinRecord}s instead of bare paths
+ * - 3: pins live in named `profiles`
+ */
+export const SCHEMA_VERSION = 3;
+
+type RawData = Record<string, unknown>;
+type Quarantine = (reason: string, value: unknown) => void;
+
+/** One upgrade step from `to - 1` to `to`. */
+interface Migration {
+	to: number;
+	migrate(data: RawData, quarantine: Quarantine): RawData;
+}
+
+/** Writes a copy of the data as it was before migrating away from `version`. */
+export type BackupFn = (version: number, data: unknown) => Promise<void>;
+
+export interface LoadResult {
+	settings: SimplePinSettings;
+	/** True when the stored data should be rewritten (migrated or repaired) */
+	changed: boolean;
+}
+
+const MIGRATIONS: Migration[] = [
+	{
+		// Flat list → per-folder order (kept as-is)
+		to: 1,
+		migrate(data, quarantine) {
+			const { pinnedPaths, ...rest } = data;
+			const pins: Record<string, string[]> = {};
+			if (Array.isArray(pinnedPaths)) {
+				for (const path of pinnedPaths) {
+					if (typeof path !== "string" || !path) {
+						quarantine("Pinned path is not a string", path);
+						continue;
+					}
+					const folder = parentPath(path);
+					const list = (pins[folder] ??= []);
+					if (!list.includes(path)) list.push(path);
+				}
+			} else if (pinnedPaths !== undefined) {
+				quarantine("pinnedPaths is not a list", pinnedPaths);
+			}
+			return { ...rest, pins };
+		},
+	},
+	{
+		// Bare paths → pin records
+		to: 2,
+		migrate(data) {
+			if (!isObject(data.pins)) return data;
+			const pins: Record<string, unknown> = {};
+			for (const [folder, list] of Object.entries(data.pins)) {
+				pins[folder] = Array.isArray(list)
+					? list.map((p: unknown) => (typeof p === "string" ? { path: p } : p))
+					: list;
+			}
+			return { ...data, pins };
+		},
+	},
+	{
+		// Top-level pins → the "Default" profile
+		to: 3,
+		migrate(data) {
+			const { pins, ...rest } = data;
+			const profile = { id: ProfileManager.DEFAULT_ID, name: "Default", pins: pins ?? {} };
+			return { ...rest, profiles: [profile], activeProfileId: ProfileManager.DEFAULT_ID };
+		},
+	},
+];
+
+/**
+ * Upgrade stored data step by step to {@link SCHEMA_VERSION}, backing
+ * up the data before each step, then validate it.  Malformed entries
+ * are moved to `settings.quarantine` rather than thrown away.
+ */
+export async function loadSettingsData(raw: unknown, backup: BackupFn): Promise<LoadResult> {
+	const quarantined: QuarantinedEntry[] = [];
+	const quarantine: Quarantine = (reason, value) => {
+		quarantined.push({ at: new Date().toISOString(), reason, value });
+	};
+
+	if (raw !== null && raw !== undefined && !isObject(raw)) {
+		quarantine("Stored data is not an object", raw);
+	}
+	let data: RawData = isObject(raw) ? raw : {};
+	const fresh = !isObject(raw);
+	const from = detectVersion(data);
+
+	if (from > SCHEMA_VERSION) {
+		console.warn(
+			`[Simple Pin] Settings were saved by a newer version (schema ${from}); loading what this version understands.`,
+		);
+		await backup(from, data);
+	}
+
+	for (const step of MIGRATIONS) {
+		if (step.to <= from) continue;
+		if (!fresh) await backup(step.to - 1, data);
+		data = step.migrate(data, quarantine);
+	}
+
+	const settings = validate(data, quarantine);
+	settings.quarantine.push(...quarantined);
+
+	return {
+		settings,
+		changed: quarantined.length > 0 || (!fresh && from !== SCHEMA_VERSION),
+	};
+}
+
+/* ── validation ────────────────────────────────── */
+
+/**
+ * Build settings from current-shape data, falling back to defaults for
+ * missing or mistyped fields and quarantining anything malformed.
+ */
+function validate(data: RawData, quarantine: Quarantine): SimplePinSettings {
+	const settings: SimplePinSettings = structuredClone(DEFAULT_SETTINGS);
+	settings.schemaVersion = SCHEMA_VERSION;
+
+	const bool = (
+		key:
+			| "showPinIndicator"
+			| "showPinLabels"
+			| "showFolderBadges"
+			| "showHeaderAction"
+			| "showStatusBar"
+			| "showTabIndicators"
+			| "showPaneIndicators"
+			| "pinnedFoldersFirst"
+			| "showGlobalSection"
+			| "boostQuickSwitcher",
+	) => {
+		const value = data[key];
+		if (typeof value === "boolean") settings[key] = value;
+		else if (value !== undefined) quarantine(`${key} is not a boolean`, value);
+	};
+	bool("showPinIndicator");
+	bool("showPinLabels");
+	bool("showFolderBadges");
+	bool("showHeaderAction");
+	bool("showStatusBar");
+	bool("showTabIndicators");
+	bool("showPaneIndicators");
+	bool("pinnedFoldersFirst");
+	bool("showGlobalSection");
+	bool("boostQuickSwitcher");
+
+	if (data.storageMode === "data" || data.storageMode === "frontmatter") {
+		settings.storageMode = data.storageMode;
+	} else if (data.storageMode !== undefined) {
+		quarantine("Unknown storage mode", data.storageMode);
+	}
+	if (typeof data.indicatorIcon === "string") settings.indicatorIcon = data.indicatorIcon;
+	if (data.indicatorPosition === "prefix" || data.indicatorPosition === "suffix") {
+		settings.indicatorPosition = data.indicatorPosition;
+	}
+	if (data.rowHighlight === "none" || data.rowHighlight === "background" || data.rowHighlight === "accent") {
+		settings.rowHighlight = data.rowHighlight;
+	}
+	if (typeof data.highlightColor === "string") settings.highlightColor = data.highlightColor;
+	if (typeof data.frontmatterKey === "string" && data.frontmatterKey.trim()) {
+		settings.frontmatterKey = data.frontmatterKey;
+	}
+	if (typeof data.historyDays === "number" && Number.isInteger(data.historyDays) && data.historyDays > 0) {
+		settings.historyDays = data.historyDays;
+	} else if (data.historyDays !== undefined) {
+		quarantine("historyDays is not a positive whole number", data.historyDays);
+	}
+
+	if (Array.isArray(data.quarantine)) {
+		settings.quarantine = data.quarantine.filter(isObject) as unknown as QuarantinedEntry[];
+	}
+
+	settings.pinRules = validateList(data.pinRules, "pin rule", isPinRule, quarantine);
+
+	if (isPinnedSortMode(data.pinnedSortMode)) settings.pinnedSortMode = data.pinnedSortMode;
+	else if (data.pinnedSortMode !== undefined) quarantine("Unknown pinned sort mode", data.pinnedSortMode);
+	settings.folderSorts = validateList(data.folderSorts, "folder sort", isFolderSort, quarantine);
+
+	const profiles = validateList(data.profiles, "profile", isProfileShell, quarantine);
+	settings.profiles = profiles.map((p) => validateProfile(p, quarantine));
+	if (settings.profiles.length === 0) {
+		settings.profiles = [{ id: ProfileManager.DEFAULT_ID, name: "Default", pins: {} }];
+	}
+
+	if (isObject(data.deletedProfiles)) {
+		const deleted = Object.entries(data.deletedProfiles).filter(([, at]) => typeof at === "number");
+		settings.deletedProfiles = Object.fromEntries(deleted) as Record<string, number>;
+	} else if (data.deletedProfiles !== undefined) {
+		quarantine("deletedProfiles is not an object", data.deletedProfiles);
+	}
+
+	const activeId = data.activeProfileId;
+	settings.activeProfileId =
+		typeof activeId === "string" && settings.profiles.some((p) => p.id === activeId)
+			? activeId
+			: (settings.profiles[0]?.id ?? ProfileManager.DEFAULT_ID);
+
+	return settings;
+}
+
+function validateList<T>(
+	value: unknown,
+	what: string,
+	isValid: (item: unknown) => item is T,
+	quarantine: Quarantine,
+): T[] {
+	if (value === undefined) return [];
+	if (!Array.isArray(value)) {
+		quarantine(`List of ${what}s is malformed`, value);
+		return [];
+	}
+	const valid: T[] = [];
+	for (const item of value) {
+		if (isValid(item)) valid.push(item);
+		else quarantine(`Malformed ${what}`, item);
+	}
+	return valid;
+}
+
+/** Keep a profile's well-formed pins, quarantining the rest. */
+function validateProfile(
+	profile: {
+		id: string;
+		name: string;
+		pins: RawData;
+		workspace?: unknown;
+		removed?: unknown;
+		sunk?: unknown;
+	},
+	quarantine: Quarantine,
+): PinProfile {
+	const result: PinProfile = { id: profile.id, name: profile.name, pins: {} };
+	if (typeof profile.workspace === "string") result.workspace = profile.workspace;
+	if (isObject(profile.removed)) {
+		const removed = Object.entries(profile.removed).filter(([, at]) => typeof at === "number");
+		if (removed.length > 0) result.removed = Object.fromEntries(removed) as Record<string, number>;
+	}
+	if (isObject(profile.sunk)) {
+		const sunk = Object.entries(profile.sunk).filter(([path, at]) => path && typeof at === "number");
+		if (sunk.length > 0) result.sunk = Object.fromEntries(sunk) as Record<string, number>;
+	} else if (profile.sunk !== undefined) {
+		quarantine("Sunk paths are malformed", profile.sunk);
+	}
+
+	const seen = new Set<string>();
+	for (const [folder, list] of Object.entries(profile.pins)) {
+		const records = validateList(list, `pin in profile "${profile.name}"`, isPinRecord, quarantine);
+		const unique = records.filter((r) => !seen.has(r.path) && !!seen.add(r.path));
+		if (unique.length > 0) result.pins[folder] = unique;
+	}
+	return result;
+}
+
+/* ── helpers ───────────────────────────────────── */
+
+/** Version of stored data; data from before versioning is inferred from its shape. */
+function detectVersion(data: RawData): number {
+	if (typeof data.schemaVersion === "number") return data.schemaVersion;
+	if (Array.isArray(data.profiles)) return 3;
+	if (isObject(data.pins)) {
+		const lists = Object.values(data.pins).filter(Array.isArray);
+		return lists.some((l) => l.some(isObject)) ? 2 : 1;
+	}
+	return 0;
+}
+
+function isObject(value: unknown): value is RawData {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPinRecord(value: unknown): value is PinRecord {
+	return (
+		isObject(value) &&
+		typeof value.path === "string" &&
+		value.path !== "" &&
+		(value.expiresAt === undefined || typeof value.expiresAt === "number") &&
+		(value.updatedAt === undefined || typeof value.updatedAt === "number") &&
+		(value.global === undefined || typeof value.global === "boolean") &&
+		(value.icon === undefined || typeof value.icon === "string") &&
+		(value.color === undefined || typeof value.color === "string") &&
+		(value.label === undefined || typeof value.label === "string") &&
+		(value.fingerprint === undefined || isObject(value.fingerprint))
+	);
+}
+
+function isPinRule(value: unknown): value is PinRule {
+	return (
+		isObject(value) &&
+		typeof value.id === "string" &&
+		(value.type === "glob" || value.type === "tag" || value.type === "frontmatter") &&
+		typeof value.value === "string" &&
+		typeof value.enabled === "boolean"
+	);
+}
+
+function isFolderSort(value: unknown): value is FolderSort {
+	return (
+		isObject(value) &&
+		typeof value.folder === "string" &&
+		(value.order === undefined || isExplorerSortOrder(value.order)) &&
+		(value.pinned === undefined || isPinnedSortMode(value.pinned))
+	);
+}
+
+function isProfileShell(
+	value: unknown,
+): value is {
+	id: string;
+	name: string;
+	pins: RawData;
+	workspace?: unknown;
+	removed?: unknown;
+	sunk?: unknown;
+} {
+	return (
+		isObject(value) &&
+		typeof value.id === "string" &&
+		typeof value.name === "string" &&
+		isObject(value.pins)
+	);
+}
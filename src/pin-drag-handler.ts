@@ -0,0 +1,134 @@
+import { TFolder } from "obsidian";
+import type SimplePinPlugin from "./main";
+import { parentPath } from "./pin-manager";
+import { pinnedSortModeFor } from "./sort-modes";
+
+/**
+ * Lets the user reorder pinned items by dragging them onto a pinned
+ * sibling in the File Explorer.  Only manual pins have a stored order,
+ * so rule-derived pins are neither drag sources nor drop targets, and
+ * only folders whose pinned group is in manual order take part.
+ *
+ * The explorer already handles drag-and-drop itself (dropping moves a
+ * file into the target's folder).  We listen in the *capture* phase on
+ * the explorer container and only take over when a pinned item is
+ * dragged over another pinned item of the same folder — every other
+ * drag falls through to Obsidian untouched.  On folder rows only the
+ * top and bottom edges reorder, so dropping onto the middle of a
+ * pinned folder still moves the item into it.
+ */
+export class PinDragHandler {
+	private plugin: SimplePinPlugin;
+	/** Container element the listeners are registered on */
+	private attachedEl: HTMLElement | null = null;
+	/** Path of the pinned item currently being dragged */
+	private dragPath: string | null = null;
+	/** Row currently showing a drop marker */
+	private markedEl: HTMLElement | null = null;
+
+	private static readonly ROW_SELECTOR = ".nav-file-title, .nav-folder-title";
+	private static readonly BEFORE_CLS = "simple-pin-drop-before";
+	private static readonly AFTER_CLS = "simple-pin-drop-after";
+
+	constructor(plugin: SimplePinPlugin) {
+		this.plugin = plugin;
+	}
+
+	/** Register the drag listeners on the explorer container (once per element). */
+	attach(containerEl: HTMLElement): void {
+		if (this.attachedEl === containerEl) return;
+		this.attachedEl = containerEl;
+
+		this.plugin.registerDomEvent(containerEl, "dragstart", (e) => this.onDragStart(e), true);
+		this.plugin.registerDomEvent(containerEl, "dragover", (e) => this.onDragOver(e), true);
+		this.plugin.registerDomEvent(containerEl, "drop", (e) => this.onDrop(e), true);
+		this.plugin.registerDomEvent(containerEl, "dragend", () => this.reset(), true);
+	}
+
+	/* ── event handlers ────────────────────────────── */
+
+	private onDragStart(e: DragEvent): void {
+		const row = this.getRow(e);
+		const path = row?.dataset.path;
+		this.dragPath =
+			path &&
+			this.plugin.pinManager.isManuallyPinned(path) &&
+			pinnedSortModeFor(this.plugin.settings, parentPath(path)) === "manual"
+				? path
+				: null;
+	}
+
+	private onDragOver(e: DragEvent): void {
+		const target = this.getDropTarget(e);
+		this.setMarker(target?.row ?? null, target?.after ?? false);
+		if (!target) return;
+
+		e.preventDefault();
+		e.stopPropagation();
+		if (e.dataTransfer) e.dataTransfer.dropEffect = "move";
+	}
+
+	private onDrop(e: DragEvent): void {
+		const target = this.getDropTarget(e);
+		const source = this.dragPath;
+		this.reset();
+		if (!target || !source) return;
+
+		e.preventDefault();
+		e.stopPropagation();
+
+		const pm = this.plugin.pinManager;
+		const from = pm.getPinIndex(source);
+		let to = pm.getPinIndex(target.path) + (target.after ? 1 : 0);
+		if (from < to) to--;
+
+		void pm.moveTo(source, to).then((moved) => {
+			if (moved) this.plugin.refreshExplorer();
+		});
+	}
+
+	/* ── helpers ───────────────────────────────────── */
+
+	private getRow(e: DragEvent): HTMLElement | null {
+		if (!(e.target instanceof HTMLElement)) return null;
+		return e.target.closest<HTMLElement>(PinDragHandler.ROW_SELECTOR);
+	}
+
+	/**
+	 * The pinned sibling row under the pointer, and whether the drop
+	 * lands after it — or null when this drag isn't a pin reorder.
+	 */
+	private getDropTarget(
+		e: DragEvent,
+	): { row: HTMLElement; path: string; after: boolean } | null {
+		if (!this.dragPath) return null;
+		const row = this.getRow(e);
+		const path = row?.dataset.path;
+		if (!row || !path || path === this.dragPath) return null;
+		if (!this.plugin.pinManager.isManuallyPinned(path)) return null;
+		if (parentPath(path) !== parentPath(this.dragPath)) return null;
+
+		const rect = row.getBoundingClientRect();
+		const offset = (e.clientY - rect.top) / rect.height;
+		const file = this.plugin.app.vault.getAbstractFileByPath(path);
+		if (file instanceof TFolder && offset > 0.25 && offset < 0.75) {
+			return null; // middle of a folder row → let Obsidian move into it
+		}
+		return { row, path, after: offset >= 0.5 };
+	}
+
+	private setMarker(row: HTMLElement | null, after: boolean): void {
+		if (this.markedEl && this.markedEl !== row) {
+			this.markedEl.removeClasses([PinDragHandler.BEFORE_CLS, PinDragHandler.AFTER_CLS]);
+		}
+		this.markedEl = row;
+		if (!row) return;
+		row.toggleClass(PinDragHandler.BEFORE_CLS, !after);
+		row.toggleClass(PinDragHandler.AFTER_CLS, after);
+	}
+
+	private reset(): void {
+		this.setMarker(null, false);
+		this.dragPath = null;
+	}
+}
@@ -0,0 +1,99 @@
+import { Modal, Notice, Setting, moment } from "obsidian";
+import type SimplePinPlugin from "./main";
+import type { PinJournalChange } from "./pin-journal";
+
+/**
+ * The active profile's pin changes from the last `historyDays` days,
+ * newest first.  Pins a change removed can be restored one by one
+ * (while their file exists), and the last change undone or redone.
+ */
+export class PinHistoryModal extends Modal {
+	private plugin: SimplePinPlugin;
+
+	constructor(plugin: SimplePinPlugin) {
+		super(plugin.app);
+		this.plugin = plugin;
+	}
+
+	onOpen(): void {
+		this.setTitle("Pin history");
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		const pm = this.plugin.pinManager;
+		contentEl.empty();
+
+		const history = pm.getHistory();
+		const days = this.plugin.settings.historyDays;
+		contentEl.createEl("p", {
+			text:
+				history.length > 0
+					? `Pin changes from the last ${days} day(s), newest first.`
+					: `No pin changes in the last ${days} day(s).`,
+		});
+
+		const undo = pm.getUndoLabel();
+		const redo = pm.getRedoLabel();
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText(undo ? `Undo: ${undo}` : "Undo")
+					.setDisabled(!undo)
+					.onClick(() => void this.run(pm.undo(), "Undid")),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText(redo ? `Redo: ${redo}` : "Redo")
+					.setDisabled(!redo)
+					.onClick(() => void this.run(pm.redo(), "Redid")),
+			);
+
+		for (const entry of history) {
+			new Setting(contentEl)
+				.setName(entry.label)
+				.setDesc(moment(entry.at).format("lll"))
+				.setHeading();
+			for (const change of entry.changes) {
+				if (change.before.pin && !change.after.pin) this.renderRemoved(change);
+			}
+		}
+	}
+
+	/** A pin the change removed, with a button to pin it again. */
+	private renderRemoved(change: PinJournalChange): void {
+		const pm = this.plugin.pinManager;
+		const exists = this.app.vault.getAbstractFileByPath(change.path) !== null;
+		const pinned = pm.isManuallyPinned(change.path);
+		new Setting(this.contentEl)
+			.setName(change.path)
+			.setDesc(change.before.pin?.label ?? "")
+			.addButton((btn) =>
+				btn
+					.setButtonText(pinned ? "Pinned" : exists ? "Restore" : "Missing")
+					.setDisabled(pinned || !exists)
+					.onClick(async () => {
+						if (await pm.restore(change)) {
+							this.plugin.refreshExplorer();
+							new Notice(`Pinned: ${change.path}`);
+						}
+						this.render();
+					}),
+			);
+	}
+
+	/** Run an undo or redo, then report it and redraw. */
+	private async run(action: Promise<string | null>, verb: string): Promise<void> {
+		const label = await action;
+		if (label) {
+			this.plugin.refreshExplorer();
+			new Notice(`${verb}: ${label}`);
+		}
+		this.render();
+	}
+}
@@ -0,0 +1,53 @@
+import { moment, setIcon } from "obsidian";
+import type SimplePinPlugin from "./main";
+
+/** Class of every pin indicator, wherever it is shown. */
+export const INDICATOR_CLS = "simple-pin-indicator";
+
+/**
+ * Build the indicator for a pinned path — the same element in the
+ * File Explorer, tab headers and the Bookmarks and Search panes.
+ */
+export function createPinIndicator(plugin: SimplePinPlugin, path: string): HTMLElement {
+	const pm = plugin.pinManager;
+	const pin = pm.getPin(path);
+	const span = createSpan({ cls: INDICATOR_CLS });
+
+	// A Lucide icon (the pin's own, else the setting), falling back
+	// to the 📌 emoji when unset or unknown.
+	const icon = pin?.icon || plugin.settings.indicatorIcon;
+	if (icon) setIcon(span, icon);
+	if (span.querySelector("svg")) span.addClass(`${INDICATOR_CLS}-icon`);
+	else span.setText("\u{1F4CC} "); // 📌 + thin space
+	if (pin?.color) span.setCssProps({ "--simple-pin-indicator-color": pin.color });
+
+	// The tooltip collects the pin's label and where the pin comes
+	// from; each part also gets a modifier class.
+	const tooltip: string[] = [];
+	if (pin?.label) {
+		span.addClass(`${INDICATOR_CLS}-labeled`);
+		tooltip.push(pin.label);
+	}
+	// Rule-derived pins are told apart from manual ones.
+	if (pm.getPinSource(path) === "rule") {
+		span.addClass(`${INDICATOR_CLS}-rule`);
+		tooltip.push("Pinned by rule");
+	}
+	// Temporary pins show how long they have left.
+	if (pin?.expiresAt !== undefined) {
+		span.addClass(`${INDICATOR_CLS}-temporary`);
+		tooltip.push(`Unpins ${moment(pin.expiresAt).fromNow()}`);
+	}
+	if (tooltip.length > 0) span.setAttr("aria-label", tooltip.join("\n"));
+	return span;
+}
+
+/** Build the indicator for a path sunk to the bottom of its folder. */
+export function createSunkIndicator(): HTMLElement {
+	const span = createSpan({ cls: [INDICATOR_CLS, `${INDICATOR_CLS}-sunk`] });
+	setIcon(span, "arrow-down-to-line");
+	if (span.querySelector("svg")) span.addClass(`${INDICATOR_CLS}-icon`);
+	else span.setText("\u2B07 "); // ⬇ + thin space
+	span.setAttr("aria-label", "Sunk to bottom");
+	return span;
+}
@@ -0,0 +1,165 @@
+import type { Vault } from "obsidian";
+import type { PinRecord } from "./types";
+
+/** Current version of the export format written by {@link serializePins}. */
+export const PIN_EXPORT_VERSION = 1;
+
+/**
+ * Versioned export file.  Older exports (a bare JSON array of paths)
+ * are still accepted by {@link parsePinExport}.
+ */
+export interface PinExport {
+	format: "simple-pin";
+	version: number;
+	/** ISO timestamp of the export */
+	exportedAt: string;
+	/** Name of the profile the pins were exported from */
+	profile?: string;
+	/** Pins in display order, with their metadata */
+	pins: PinRecord[];
+	/** Paths sunk to the bottom of their folder */
+	sunk?: string[];
+}
+
+/** The contents of an export, as read by {@link parsePinExport}. */
+export interface PinSet {
+	pins: PinRecord[];
+	sunk: string[];
+}
+
+/**
+ * - `merge`:   add pins from the file, keep everything else
+ * - `replace`: make the pin set exactly what the file contains
+ * - `dry-run`: compute and preview a merge without applying it
+ */
+export type ImportMode = "merge" | "replace" | "dry-run";
+
+/** What an import would change — shown in the preview, then applied. */
+export interface ImportPlan {
+	mode: ImportMode;
+	/** Pins that are new to this vault's pin set */
+	add: PinRecord[];
+	/** Pins already present whose metadata the file replaces (replace mode) */
+	update: PinRecord[];
+	/** Currently pinned paths the import would unpin (replace mode) */
+	remove: string[];
+	/** Paths the import would sink to the bottom */
+	sink: string[];
+	/** Currently sunk paths the import would unsink (replace mode) */
+	unsink: string[];
+	/** Imported paths that don't exist in this vault */
+	missing: string[];
+}
+
+export function serializePins(set: PinSet, profile?: string): string {
+	const data: PinExport = {
+		format: "simple-pin",
+		version: PIN_EXPORT_VERSION,
+		exportedAt: new Date().toISOString(),
+		profile,
+		pins: set.pins,
+	};
+	if (set.sunk.length > 0) data.sunk = set.sunk;
+	return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Parse an export (any supported version) into pin records and sunk
+ * paths.  Throws an `Error` with a user-facing message on malformed input.
+ */
+export function parsePinExport(json: string): PinSet {
+	let data: unknown;
+	try {
+		data = JSON.parse(json);
+	} catch {
+		throw new Error("Not valid JSON.");
+	}
+
+	// Legacy format: a bare array of paths
+	if (Array.isArray(data)) return { pins: toRecords(data), sunk: [] };
+
+	if (!isObject(data) || data.format !== "simple-pin") {
+		throw new Error("Not a Simple Pin export.");
+	}
+	if (typeof data.version !== "number" || data.version > PIN_EXPORT_VERSION) {
+		throw new Error("This export was made by a newer version of Simple Pin.");
+	}
+	if (!Array.isArray(data.pins)) throw new Error("The export contains no pin list.");
+	const pins = toRecords(data.pins);
+	const pinned = new Set(pins.map((r) => r.path));
+	const sunk = Array.isArray(data.sunk)
+		? [...new Set(data.sunk.filter((p): p is string => typeof p === "string" && p !== ""))]
+		: [];
+	return { pins, sunk: sunk.filter((p) => !pinned.has(p)) };
+}
+
+/**
+ * Work out what importing `incoming` into `current` would change.
+ * Pinning and sinking replace each other, so a path the file sinks is
+ * unpinned here, and one it pins is unsunk.
+ */
+export function planImport(current: PinSet, incoming: PinSet, mode: ImportMode, vault: Vault): ImportPlan {
+	const have = new Map(current.pins.map((r) => [r.path, r]));
+	const wanted = new Set(incoming.pins.map((r) => r.path));
+	const sunk = new Set(current.sunk);
+	const wantedSunk = new Set(incoming.sunk);
+	const plan: ImportPlan = { mode, add: [], update: [], remove: [], sink: [], unsink: [], missing: [] };
+
+	for (const rec of incoming.pins) {
+		const existing = have.get(rec.path);
+		if (!existing) plan.add.push(rec);
+		else if (mode === "replace" && !sameMetadata(existing, rec)) plan.update.push(rec);
+		if (!vault.getAbstractFileByPath(rec.path)) plan.missing.push(rec.path);
+	}
+	for (const path of incoming.sunk) {
+		if (!sunk.has(path)) plan.sink.push(path);
+		if (!vault.getAbstractFileByPath(path)) plan.missing.push(path);
+	}
+	if (mode === "replace") {
+		plan.remove = current.pins.map((r) => r.path).filter((p) => !wanted.has(p));
+		plan.unsink = current.sunk.filter((p) => !wantedSunk.has(p));
+	} else {
+		plan.remove = plan.sink.filter((p) => have.has(p));
+		plan.unsink = plan.add.map((r) => r.path).filter((p) => sunk.has(p));
+	}
+	return plan;
+}
+
+/* ── helpers ───────────────────────────────────── */
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Keep well-formed entries (strings or records), drop duplicates. */
+function toRecords(items: unknown[]): PinRecord[] {
+	const seen = new Set<string>();
+	const records: PinRecord[] = [];
+	for (const item of items) {
+		let rec: PinRecord | null = null;
+		if (typeof item === "string") {
+			rec = { path: item };
+		} else if (isObject(item) && typeof item.path === "string") {
+			rec = { path: item.path };
+			if (typeof item.expiresAt === "number") rec.expiresAt = item.expiresAt;
+			if (item.global === true) rec.global = true;
+			if (typeof item.icon === "string") rec.icon = item.icon;
+			if (typeof item.color === "string") rec.color = item.color;
+			if (typeof item.label === "string" && item.label.trim()) rec.label = item.label.trim();
+		}
+		if (!rec || !rec.path || seen.has(rec.path)) continue;
+		seen.add(rec.path);
+		records.push(rec);
+	}
+	return records;
+}
+
+function sameMetadata(a: PinRecord, b: PinRecord): boolean {
+	return (
+		a.expiresAt === b.expiresAt &&
+		!!a.global === !!b.global &&
+		a.icon === b.icon &&
+		a.color === b.color &&
+		a.label === b.label
+	);
+}
@@ -0,0 +1,174 @@
+import { normalizePath } from "obsidian";
+import type SimplePinPlugin from "./main";
+import type { PinRecord } from "./types";
+
+/** A path's pin state on one side of a journaled change. */
+export interface PinPathState {
+	/** The manual pin, if it was pinned */
+	pin?: PinRecord;
+	/** Position in its folder's pin order, with `pin` */
+	index?: number;
+	/** Sunk to the bottom of its folder */
+	sunk?: boolean;
+}
+
+/** How one path changed in a journal entry. */
+export interface PinJournalChange {
+	path: string;
+	before: PinPathState;
+	after: PinPathState;
+}
+
+/** One undoable change to a profile's pins, such as a pin or "Clear all". */
+export interface PinJournalEntry {
+	/** When it was made (epoch ms) */
+	at: number;
+	/** Profile whose pins changed */
+	profileId: string;
+	/** What was done, for commands and the history view */
+	label: string;
+	changes: PinJournalChange[];
+	/** Undone, and waiting to be redone */
+	undone?: boolean;
+}
+
+/**
+ * Bounded undo / redo journal of pin changes, owned by `PinManager`.
+ *
+ * Entries are kept per profile, for at most `historyDays` days and
+ * {@link PinJournal.MAX_ENTRIES} entries, in `history.json` next to the
+ * plugin's data — separate from data.json, so syncing pins never merges
+ * or overwrites another device's history.
+ *
+ * Undone entries stay at the end of their profile's list until they are
+ * redone, or dropped by the next new change.
+ */
+export class PinJournal {
+	private plugin: SimplePinPlugin;
+	/** Oldest first */
+	private entries: PinJournalEntry[] = [];
+
+	static readonly MAX_ENTRIES = 200;
+
+	constructor(plugin: SimplePinPlugin) {
+		this.plugin = plugin;
+	}
+
+	/** Read the journal saved by an earlier session; a bad file is ignored. */
+	async load(): Promise<void> {
+		const path = this.path();
+		try {
+			if (!(await this.plugin.app.vault.adapter.exists(path))) return;
+			const data: unknown = JSON.parse(await this.plugin.app.vault.adapter.read(path));
+			const entries = isObject(data) && Array.isArray(data.entries) ? data.entries : [];
+			this.entries = entries.filter(isEntry);
+			this.prune();
+		} catch (e) {
+			console.warn(`[Simple Pin] Could not read pin history from ${path}:`, e);
+		}
+	}
+
+	/** Add a new change, dropping whatever was undone in its profile. */
+	record(entry: PinJournalEntry): void {
+		this.entries = this.entries.filter((e) => !(e.undone && e.profileId === entry.profileId));
+		this.entries.push(entry);
+		this.prune();
+		this.save();
+	}
+
+	/** The change "Undo" would revert in `profileId`. */
+	nextUndo(profileId: string): PinJournalEntry | undefined {
+		return this.forProfile(profileId).reverse().find((e) => !e.undone);
+	}
+
+	/** The change "Redo" would re-apply in `profileId`. */
+	nextRedo(profileId: string): PinJournalEntry | undefined {
+		return this.forProfile(profileId).find((e) => e.undone);
+	}
+
+	setUndone(entry: PinJournalEntry, undone: boolean): void {
+		if (undone) entry.undone = true;
+		else delete entry.undone;
+		this.save();
+	}
+
+	/** Changes in `profileId` still in effect, newest first. */
+	getHistory(profileId: string): readonly PinJournalEntry[] {
+		return this.forProfile(profileId)
+			.filter((e) => !e.undone)
+			.reverse();
+	}
+
+	/**
+	 * Follow a rename or move of `oldPath` (and everything below it), so
+	 * undoing an earlier change acts on where the file is now.
+	 */
+	rename(oldPath: string, newPath: string): void {
+		const prefix = oldPath + "/";
+		const move = (path: string) =>
+			path === oldPath || path.startsWith(prefix) ? newPath + path.slice(oldPath.length) : path;
+		let changed = false;
+		for (const entry of this.entries) {
+			for (const change of entry.changes) {
+				const path = move(change.path);
+				if (path === change.path) continue;
+				change.path = path;
+				for (const state of [change.before, change.after]) {
+					if (state.pin) state.pin = { ...state.pin, path };
+				}
+				changed = true;
+			}
+		}
+		if (changed) this.save();
+	}
+
+	/* ── internal ───────────────────────────────────── */
+
+	private forProfile(profileId: string): PinJournalEntry[] {
+		return this.entries.filter((e) => e.profileId === profileId);
+	}
+
+	/** Forget entries older than `historyDays`, and the oldest beyond the limit. */
+	private prune(): void {
+		const cutoff = Date.now() - this.plugin.settings.historyDays * 24 * 60 * 60 * 1000;
+		this.entries = this.entries.filter((e) => e.at >= cutoff).slice(-PinJournal.MAX_ENTRIES);
+	}
+
+	private save(): void {
+		const path = this.path();
+		const data = JSON.stringify({ entries: this.entries });
+		this.plugin.app.vault.adapter.write(path, data).catch((e) => {
+			console.warn(`[Simple Pin] Could not save pin history to ${path}:`, e);
+		});
+	}
+
+	private path(): string {
+		return normalizePath(`${this.plugin.manifest.dir ?? ""}/history.json`);
+	}
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isState(value: unknown): value is PinPathState {
+	return (
+		isObject(value) &&
+		(value.pin === undefined || (isObject(value.pin) && typeof value.pin.path === "string")) &&
+		(value.index === undefined || typeof value.index === "number") &&
+		(value.sunk === undefined || typeof value.sunk === "boolean")
+	);
+}
+
+function isEntry(value: unknown): value is PinJournalEntry {
+	return (
+		isObject(value) &&
+		typeof value.at === "number" &&
+		typeof value.profileId === "string" &&
+		typeof value.label === "string" &&
+		Array.isArray(value.changes) &&
+		value.changes.every(
+			(c) => isObject(c) && typeof c.path === "string" && isState(c.before) && isState(c.after),
+		)
+	);
+}
@@ -0,0 +1,57 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Edits a pin's label: a short note on why it is pinned.  Saving an
+ * empty label removes it.  Enter saves.
+ */
+export class PinLabelModal extends Modal {
+	private name: string;
+	private value: string;
+	private onSubmit: (label: string) => void;
+
+	constructor(app: App, name: string, current: string, onSubmit: (label: string) => void) {
+		super(app);
+		this.name = name;
+		this.value = current;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle(`Pin label: ${this.name}`);
+
+		new Setting(contentEl)
+			.setName("Label")
+			.setDesc("Shown when hovering the pin indicator. Leave empty to remove it.")
+			.addText((text) => {
+				text
+					.setPlaceholder("Example: current sprint")
+					.setValue(this.value)
+					.onChange((value) => (this.value = value));
+				text.inputEl.addEventListener("keydown", (evt) => {
+					if (evt.key !== "Enter" || evt.isComposing) return;
+					evt.preventDefault();
+					this.submit();
+				});
+				window.setTimeout(() => text.inputEl.select(), 0);
+			});
+
+		new Setting(contentEl)
+			.addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+			.addButton((btn) =>
+				btn
+					.setButtonText("Save")
+					.setCta()
+					.onClick(() => this.submit()),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private submit(): void {
+		this.close();
+		this.onSubmit(this.value);
+	}
+}
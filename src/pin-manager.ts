@@ -1,44 +1,470 @@
+import { Events, TAbstractFile, TFile, TFolder, Vault } from "obsidian";
 import type SimplePinPlugin from "./main";
+import { FrontmatterStore } from "./frontmatter-store";
+import { PinJournal, PinJournalChange, PinJournalEntry, PinPathState } from "./pin-journal";
+import { pruneTombstones } from "./pin-merge";
+import { fingerprintFile } from "./pin-reconciler";
+import { RuleEngine } from "./rule-engine";
+import { compareByOrder, comparePinned, folderSortOrder, pinnedSortModeFor } from "./sort-modes";
+import type { ImportPlan, PinSet } from "./pin-io";
+import type { PinRecord } from "./types";
+
+/** When a temporary pin ends: after a duration, or at a fixed date. */
+export type PinExpiry = { durationMs: number } | { until: Date };
+
+/** Vault-relative path of the folder containing `path` ("/" for the root). */
+export function parentPath(path: string): string {
+	const idx = path.lastIndexOf("/");
+	return idx === -1 ? "/" : path.slice(0, idx);
+}
 
 /**
- * Manages the set of pinned file paths –
- * add, remove, toggle, rename, delete, clear.
+ * Manages the active profile's set of pinned file and folder paths –
+ * add, remove, toggle, reorder, rename, delete, clear, expire.
+ * Each folder keeps its own user-defined order of pinned children,
+ * and each pin carries a {@link PinRecord} with its metadata.
  * Persists changes through the plugin's saveSettings().
+ *
+ * Next to the explicit (manual) pins, a {@link RuleEngine} supplies
+ * rule-derived pins.  Both count as pinned; `getPinSource()` tells
+ * them apart.
+ *
+ * In the "frontmatter" storage mode, manual pins on markdown notes are
+ * mirrored to a frontmatter key through a {@link FrontmatterStore}, and
+ * edits to that key flow back in via `syncFromFrontmatter()`.
+ * The profile's `pins` still record the per-folder order.
+ *
+ * Separately, paths can be "sunk": shown at the bottom of their folder
+ * instead of the top.  A path is never pinned and sunk by hand at the
+ * same time — pinning unsinks it and sinking unpins it.
+ *
+ * Every saved change to the manual pins or sunk paths is recorded in a
+ * {@link PinJournal} as the before / after state of each path it
+ * touched, so it can be undone and redone.  Renames are not changes of
+ * their own: they rewrite the journal's paths instead.
+ *
+ * Fires a `"changed"` event whenever the set of pinned paths (manual
+ * or rule-derived), the sunk paths, or any pin's metadata changes.
  */
-export class PinManager {
-	/** Fast lookup set kept in sync with settings.pinnedPaths */
+export class PinManager extends Events {
+	/** Fast lookup set kept in sync with the active profile's pins */
 	private pinned: Set<string>;
+	/** Parent folder path → pinned child paths in display order */
+	private order: Map<string, string[]>;
+	/** Path → pin metadata (expiry, …) */
+	private records: Map<string, PinRecord>;
+	/** Path → when it was unpinned or unsunk, saved as the profile's `removed` */
+	private removed: Map<string, number> = new Map();
+	/** Path → when it was sunk to the bottom of its folder */
+	private sunk: Map<string, number> = new Map();
+	/** Manual + rule pins, rebuilt lazily after either changes */
+	private combined: Set<string> | null = null;
+	/** Parent folders of rule pins, rebuilt lazily like `combined` */
+	private ruleParents: Set<string> | null = null;
+	/** Parent folders of sunk paths, rebuilt lazily like `combined` */
+	private sunkParents: Set<string> | null = null;
+	/** State of every manual pin and sunk path when last journaled */
+	private snapshot: Map<string, PinPathState> = new Map();
+	private rules: RuleEngine;
+	private frontmatter: FrontmatterStore;
+	private journal: PinJournal;
 	private plugin: SimplePinPlugin;
+	/** Save shared by the rename/delete events of one burst */
+	private pendingSave: Promise<void> | null = null;
+
+	/** How long a burst of rename/delete events may take to settle */
+	private static readonly BATCH_MS = 50;
 
 	constructor(plugin: SimplePinPlugin) {
+		super();
 		this.plugin = plugin;
-		this.pinned = new Set(plugin.settings.pinnedPaths);
+		this.rules = new RuleEngine(plugin);
+		this.frontmatter = new FrontmatterStore(plugin);
+		this.journal = new PinJournal(plugin);
+		this.order = new Map();
+		this.records = new Map();
+		this.pinned = new Set();
+		this.load();
+	}
+
+	/** Read the undo history saved by an earlier session. */
+	async loadHistory(): Promise<void> {
+		await this.journal.load();
+	}
+
+	/**
+	 * Re-read the active profile's pins (after switching profiles or a
+	 * sync).  In frontmatter mode, notes whose pin state differs between
+	 * the old and new pins get their flag rewritten, so flags left by
+	 * another profile don't pin notes into this one.
+	 */
+	reload(): void {
+		const before = new Set(this.pinned);
+		this.load();
+		this.trigger("changed");
+		this.mirrorToFrontmatter([...before].filter((p) => !this.pinned.has(p)), false)
+			.then(() => this.mirrorToFrontmatter([...this.pinned].filter((p) => !before.has(p)), true))
+			.catch((e) => {
+				console.warn("[Simple Pin] Could not update frontmatter after switching pins:", e);
+			});
 	}
 
 	/* ── queries ───────────────────────────────────── */
 
+	/** Pinned manually or by a rule. */
 	isPinned(path: string): boolean {
+		return this.pinned.has(path) || this.rules.matches(path);
+	}
+
+	/** Pinned by hand (the only kind that can be unpinned or reordered). */
+	isManuallyPinned(path: string): boolean {
 		return this.pinned.has(path);
 	}
 
+	/** Where a pin comes from; manual wins when both apply. */
+	getPinSource(path: string): "manual" | "rule" | null {
+		if (this.pinned.has(path)) return "manual";
+		if (this.rules.matches(path)) return "rule";
+		return null;
+	}
+
+	/** Every pinned path, manual and rule-derived. */
 	getPinnedPaths(): ReadonlySet<string> {
-		return this.pinned;
+		if (this.rules.getMatches().size === 0) return this.pinned;
+		this.combined ??= new Set([...this.pinned, ...this.rules.getMatches()]);
+		return this.combined;
+	}
+
+	/** Whether any direct child of `folderPath` is pinned (manually or by a rule). */
+	hasPinnedChildren(folderPath: string): boolean {
+		if (this.order.has(folderPath)) return true;
+		if (this.rules.getMatches().size === 0) return false;
+		this.ruleParents ??= new Set([...this.rules.getMatches()].map(parentPath));
+		return this.ruleParents.has(folderPath);
+	}
+
+	/** Sunk to the bottom of its folder. */
+	isSunk(path: string): boolean {
+		return this.sunk.has(path);
+	}
+
+	/** Every sunk path, sorted. */
+	getSunkPaths(): string[] {
+		return [...this.sunk.keys()].sort();
+	}
+
+	/** Whether any direct child of `folderPath` is sunk. */
+	hasSunkChildren(folderPath: string): boolean {
+		if (this.sunk.size === 0) return false;
+		this.sunkParents ??= new Set([...this.sunk.keys()].map(parentPath));
+		return this.sunkParents.has(folderPath);
+	}
+
+	/** Metadata of a manual pin, or undefined if `path` isn't manually pinned. */
+	getPin(path: string): Readonly<PinRecord> | undefined {
+		return this.records.get(path);
+	}
+
+	/** Pins flagged for the global "Pinned" section, sorted by name. */
+	getGlobalPins(): string[] {
+		const name = (p: string) => p.slice(p.lastIndexOf("/") + 1);
+		return [...this.records.values()]
+			.filter((r) => r.global)
+			.map((r) => r.path)
+			.sort((a, b) => name(a).localeCompare(name(b)));
+	}
+
+	/** Manual pins anywhere below `folderPath` (not including the folder itself). */
+	getPinnedDescendants(folderPath: string): string[] {
+		const prefix = folderPath === "/" ? "" : folderPath + "/";
+		return [...this.pinned].filter((p) => p.startsWith(prefix));
+	}
+
+	/** Folder path → how many pinned paths (manual or rule) are anywhere below it. */
+	getPinnedDescendantCounts(): Map<string, number> {
+		const counts = new Map<string, number>();
+		for (const path of this.getPinnedPaths()) {
+			for (let folder = parentPath(path); folder !== "/"; folder = parentPath(folder)) {
+				counts.set(folder, (counts.get(folder) ?? 0) + 1);
+			}
+		}
+		return counts;
+	}
+
+	/**
+	 * Every pinned file, top to bottom as the explorer shows them: each
+	 * folder's pinned group in pin order, then the folders below it
+	 * (unpinned folders in the folder's sort order, sunk ones last).
+	 */
+	getPinnedFilesInOrder(): string[] {
+		const { app, settings } = this.plugin;
+		const vault = app.vault;
+		const pinnedIn = new Map<string, string[]>();
+		const subfolders = new Map<string, Set<string>>();
+		for (const path of this.getPinnedPaths()) {
+			push(pinnedIn, parentPath(path), path);
+			// Register every folder on the way down to the pin
+			for (let child = parentPath(path); child !== "/"; child = parentPath(child)) {
+				const folder = parentPath(child);
+				const set = subfolders.get(folder) ?? new Set<string>();
+				subfolders.set(folder, set);
+				if (set.has(child)) break; // the rest of the chain is known
+				set.add(child);
+			}
+		}
+
+		const files: string[] = [];
+		const visit = (folder: string) => {
+			const here = this.rankChildren(folder, pinnedIn.get(folder) ?? []);
+			for (const path of here) {
+				const file = vault.getAbstractFileByPath(path);
+				if (file instanceof TFile) files.push(path);
+				else if (file instanceof TFolder) visit(path);
+			}
+			const compare = compareByOrder(folderSortOrder(app, settings, folder));
+			const rest = [...(subfolders.get(folder) ?? [])]
+				.filter((f) => !here.includes(f))
+				.map((f) => vault.getAbstractFileByPath(f))
+				.filter((f): f is TFolder => f instanceof TFolder)
+				.sort((a, b) => Number(this.isSunk(a.path)) - Number(this.isSunk(b.path)) || compare(a, b));
+			rest.forEach((f) => visit(f.path));
+		};
+		visit("/");
+		return files;
+	}
+
+	/** Pinned files directly in `folderPath`, in the order the explorer shows them. */
+	getPinnedFilesIn(folderPath: string): string[] {
+		const vault = this.plugin.app.vault;
+		const children = [...this.getPinnedPaths()].filter(
+			(p) => parentPath(p) === folderPath && vault.getAbstractFileByPath(p) instanceof TFile,
+		);
+		return this.rankChildren(folderPath, children);
+	}
+
+	/** Pinned children of `folderPath` in their user-defined order. */
+	getFolderOrder(folderPath: string): readonly string[] {
+		return this.order.get(folderPath) ?? [];
+	}
+
+	/** Position of `path` among its folder's pins, or -1 if not pinned. */
+	getPinIndex(path: string): number {
+		return this.order.get(parentPath(path))?.indexOf(path) ?? -1;
+	}
+
+	/* ── rules ─────────────────────────────────────── */
+
+	/** Re-read rules from settings and re-evaluate the whole vault. */
+	reloadRules(): void {
+		this.rules.recompute();
+		this.invalidate();
+		this.trigger("changed");
+	}
+
+	/**
+	 * Re-evaluate rules for one file after its metadata changed, or for a
+	 * renamed folder and everything in it.
+	 * Returns true if any rule-pinned state changed.
+	 */
+	recheckRules(file: TAbstractFile): boolean {
+		if (!this.rules.hasRules()) return false;
+		let changed = this.rules.recheck(file);
+		if (file instanceof TFolder) {
+			// Renamed folder — its contents have new paths too
+			Vault.recurseChildren(file, (child) => {
+				if (child !== file && this.rules.recheck(child)) changed = true;
+			});
+		}
+		if (!changed) return false;
+		this.invalidate();
+		this.trigger("changed");
+		return true;
+	}
+
+	/* ── frontmatter storage ───────────────────────── */
+
+	/**
+	 * Apply a hand edit of the frontmatter key to the pin set.
+	 * Returns true if the note's pin state changed.
+	 */
+	async syncFromFrontmatter(file: TFile): Promise<boolean> {
+		const store = this.frontmatter;
+		if (!store.enabled || !store.getNote(file.path)) return false;
+		if (store.shouldIgnore(file)) return false;
+
+		const flagged = store.read(file);
+		if (flagged === this.pinned.has(file.path)) return false;
+		if (flagged) this.add(file.path);
+		else this.remove(file.path);
+		await this.persist();
+		return true;
+	}
+
+	/**
+	 * Reconcile every note with the frontmatter key on startup: flagged
+	 * notes become pinned, pinned notes that lost the key are unpinned.
+	 * Notes the metadata cache hasn't indexed yet are left alone.
+	 */
+	async syncAllFromFrontmatter(): Promise<boolean> {
+		const store = this.frontmatter;
+		if (!store.enabled) return false;
+
+		let changed = false;
+		const cache = this.plugin.app.metadataCache;
+		for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+			if (!cache.getFileCache(file)) continue;
+			const flagged = store.read(file);
+			if (flagged === this.pinned.has(file.path)) continue;
+			if (flagged) this.add(file.path);
+			else this.remove(file.path);
+			changed = true;
+		}
+		if (changed) await this.persist();
+		return changed;
+	}
+
+	/**
+	 * One-shot migration: write the frontmatter key into every pinned
+	 * note and switch to the "frontmatter" storage mode.
+	 * Returns the number of notes written.
+	 */
+	async moveToFrontmatter(): Promise<number> {
+		this.plugin.settings.storageMode = "frontmatter";
+		await this.plugin.saveSettings();
+		return this.writeFrontmatter([...this.pinned], true);
+	}
+
+	/**
+	 * One-shot migration back: remove the frontmatter key from every
+	 * pinned note and keep the pins in plugin data only.
+	 * Returns the number of notes written.
+	 */
+	async moveToPluginData(): Promise<number> {
+		const written = await this.writeFrontmatter([...this.pinned], false);
+		this.plugin.settings.storageMode = "data";
+		await this.plugin.saveSettings();
+		return written;
 	}
 
 	/* ── mutations ──────────────────────────────────── */
 
-	async pin(path: string): Promise<void> {
-		if (this.pinned.has(path)) return;
-		this.pinned.add(path);
+	/**
+	 * Pin `path`, optionally only until `expiry`.  Pinning an already
+	 * pinned path just replaces its expiry (none = permanent).
+	 */
+	async pin(path: string, expiry?: PinExpiry): Promise<void> {
+		const expiresAt = expiry ? PinManager.resolveExpiry(expiry) : undefined;
+		const existing = this.records.get(path);
+		if (existing) {
+			if (existing.expiresAt === expiresAt) return;
+			if (expiresAt === undefined) delete existing.expiresAt;
+			else existing.expiresAt = expiresAt;
+			existing.updatedAt = Date.now();
+			await this.persist();
+			return;
+		}
+		this.add(path, expiresAt === undefined ? { path } : { path, expiresAt });
+		await this.fingerprint([path]);
 		await this.persist();
+		await this.mirrorToFrontmatter([path], true);
 	}
 
 	async unpin(path: string): Promise<void> {
 		if (!this.pinned.has(path)) return;
-		this.pinned.delete(path);
+		this.remove(path);
+		await this.persist();
+		await this.mirrorToFrontmatter([path], false);
+	}
+
+	/**
+	 * Flag a pin for the global "Pinned" section (pinning it first if
+	 * needed), or clear the flag.
+	 */
+	async setGlobal(path: string, global: boolean): Promise<void> {
+		let record = this.records.get(path);
+		if (!record) {
+			if (!global) return;
+			this.add(path);
+			record = this.records.get(path);
+			await this.fingerprint([path]);
+			await this.mirrorToFrontmatter([path], true);
+		}
+		if (!record || !!record.global === global) return;
+		if (global) record.global = true;
+		else delete record.global;
+		record.updatedAt = Date.now();
+		await this.persist();
+	}
+
+	/**
+	 * Give a manual pin its own indicator icon and/or color; an empty
+	 * value falls back to the settings.
+	 */
+	async setStyle(path: string, style: { icon?: string; color?: string }): Promise<void> {
+		const record = this.records.get(path);
+		if (!record) return;
+		for (const key of ["icon", "color"] as const) {
+			const value = style[key]?.trim();
+			if (value) record[key] = value;
+			else delete record[key];
+		}
+		record.updatedAt = Date.now();
+		await this.persist();
+	}
+
+	/** Set or (with an empty string) clear a manual pin's label. */
+	async setLabel(path: string, label: string): Promise<void> {
+		const record = this.records.get(path);
+		if (!record) return;
+		const value = label.trim();
+		if ((record.label ?? "") === value) return;
+		if (value) record.label = value;
+		else delete record.label;
+		record.updatedAt = Date.now();
 		await this.persist();
 	}
 
+	/**
+	 * Sink `path` to the bottom of its folder, replacing a manual pin
+	 * if it has one.
+	 */
+	async sink(path: string): Promise<void> {
+		if (this.sunk.has(path)) return;
+		const wasPinned = this.pinned.has(path);
+		if (wasPinned) this.remove(path);
+		this.sunk.set(path, Date.now());
+		this.invalidate();
+		await this.persist();
+		if (wasPinned) await this.mirrorToFrontmatter([path], false);
+	}
+
+	async unsink(path: string): Promise<void> {
+		if (!this.sunk.has(path)) return;
+		this.unsinkPath(path);
+		await this.persist();
+	}
+
+	/** Pin several paths with a single save. Returns how many were newly pinned. */
+	async pinMany(paths: readonly string[]): Promise<number> {
+		const added = [...new Set(paths)].filter((p) => !this.pinned.has(p));
+		if (added.length === 0) return 0;
+		added.forEach((p) => this.add(p));
+		await this.fingerprint(added);
+		await this.persist();
+		await this.mirrorToFrontmatter(added, true);
+		return added.length;
+	}
+
+	/** Unpin several paths with a single save. Returns how many were pinned. */
+	async unpinMany(paths: readonly string[]): Promise<number> {
+		const removed = paths.filter((p) => this.pinned.has(p));
+		if (removed.length === 0) return 0;
+		removed.forEach((p) => this.remove(p));
+		await this.persist();
+		await this.mirrorToFrontmatter(removed, false);
+		return removed.length;
+	}
+
 	async toggle(path: string): Promise<boolean> {
 		if (this.pinned.has(path)) {
 			await this.unpin(path);
@@ -48,51 +474,591 @@ export class PinManager {
 		return true;
 	}
 
-	/** Handle file rename/move: transfer pin to new path */
-	async handleRename(oldPath: string, newPath: string): Promise<void> {
-		if (!this.pinned.has(oldPath)) return;
-		this.pinned.delete(oldPath);
-		this.pinned.add(newPath);
-		await this.persist();
+	/**
+	 * Move a pin `delta` places within its folder's order.
+	 * Returns false when the pin is already at that end of the list.
+	 */
+	async move(path: string, delta: number): Promise<boolean> {
+		const index = this.getPinIndex(path);
+		if (index === -1) return false;
+		const target = index + delta;
+		const list = this.getFolderOrder(parentPath(path));
+		if (target < 0 || target >= list.length) return false;
+		return this.moveTo(path, target);
 	}
 
-	/** Handle file delete: remove pin */
-	async handleDelete(path: string): Promise<void> {
-		if (!this.pinned.has(path)) return;
-		this.pinned.delete(path);
+	/** Place a pin at `index` within its folder's order. */
+	async moveTo(path: string, index: number): Promise<boolean> {
+		const list = this.order.get(parentPath(path));
+		const from = list?.indexOf(path) ?? -1;
+		if (!list || from === -1) return false;
+		const to = Math.max(0, Math.min(index, list.length - 1));
+		if (to === from) return false;
+		list.splice(from, 1);
+		list.splice(to, 0, path);
 		await this.persist();
+		return true;
+	}
+
+	/**
+	 * Handle file/folder rename or move: transfer the pin to the new path,
+	 * along with every pin below a renamed folder.  Returns true if any
+	 * pin (manual or rule) was affected.
+	 *
+	 * Moving a large folder fires a burst of rename events (one per
+	 * descendant, in no guaranteed order).  The in-memory update is
+	 * synchronous, so later events find their pins already moved, and
+	 * the save is batched into one for the whole burst.
+	 */
+	async handleRename(oldPath: string, newPath: string): Promise<boolean> {
+		const moved = this.pathsUnder(oldPath);
+		const movedSunk = this.sunkUnder(oldPath);
+		const forgot = this.rules.forget(oldPath);
+		if (forgot) {
+			this.invalidate();
+			if (moved.length === 0 && movedSunk.length === 0) this.trigger("changed");
+		}
+		if (moved.length === 0 && movedSunk.length === 0) return forgot;
+		for (const path of moved) {
+			this.transfer(path, newPath + path.slice(oldPath.length));
+		}
+		for (const path of movedSunk) {
+			this.unsinkPath(path);
+			this.sunk.set(newPath + path.slice(oldPath.length), Date.now());
+		}
+		this.invalidate();
+		this.journal.rename(oldPath, newPath);
+		this.recordChanges(null);
+		await this.saveBatched();
+		return true;
+	}
+
+	/**
+	 * Resolve stale pins found by the reconciler with a single save:
+	 * move pins to where their files went, and drop dead ones.
+	 */
+	async reconcile(
+		relinks: readonly { from: string; to: string }[],
+		drops: readonly string[],
+	): Promise<void> {
+		const moved: string[] = [];
+		let removed = false;
+		for (const { from, to } of relinks) {
+			if (!this.pinned.has(from)) continue;
+			if (this.pinned.has(to)) {
+				this.remove(from);
+				removed = true;
+			} else {
+				this.transfer(from, to);
+				moved.push(to);
+			}
+		}
+		drops.forEach((path) => this.remove(path));
+		if (moved.length === 0 && drops.length === 0 && !removed) return;
+		await this.fingerprint(moved);
+		await this.persist("Resolve missing pins");
+		await this.mirrorToFrontmatter(moved, true);
 	}
 
-	/** Remove all pins */
+	/**
+	 * Re-take the fingerprint of every pinned file that still exists, so
+	 * edits since pinning don't hide it if it's later renamed behind our
+	 * back.  Saves only when something changed.
+	 */
+	async refreshFingerprints(): Promise<void> {
+		const before = [...this.records.values()].map((r) => JSON.stringify(r.fingerprint));
+		await this.fingerprint([...this.records.keys()]);
+		const after = [...this.records.values()].map((r) => JSON.stringify(r.fingerprint));
+		if (after.some((fp, i) => fp !== before[i])) await this.persist();
+	}
+
+	/**
+	 * Handle file/folder delete: remove the pin, along with every pin
+	 * below a deleted folder.  Returns true if any pin (manual or rule)
+	 * was affected.
+	 */
+	async handleDelete(path: string): Promise<boolean> {
+		const removed = this.pathsUnder(path);
+		const removedSunk = this.sunkUnder(path);
+		const forgot = this.rules.forget(path);
+		if (forgot) {
+			this.invalidate();
+			if (removed.length === 0 && removedSunk.length === 0) this.trigger("changed");
+		}
+		if (removed.length === 0 && removedSunk.length === 0) return forgot;
+		removed.forEach((p) => this.remove(p));
+		removedSunk.forEach((p) => this.unsinkPath(p));
+		this.recordChanges(`Delete ${nameOf(path)}`);
+		await this.saveBatched();
+		return true;
+	}
+
+	/** Remove all pins and sunk paths */
 	async clearAll(): Promise<void> {
+		const cleared = [...this.pinned];
+		const now = Date.now();
+		for (const path of [...cleared, ...this.sunk.keys()]) this.removed.set(path, now);
 		this.pinned.clear();
-		await this.persist();
+		this.records.clear();
+		this.order.clear();
+		this.sunk.clear();
+		this.invalidate();
+		await this.persist("Clear all pins");
+		await this.mirrorToFrontmatter(cleared, false);
 	}
 
-	/** Export pins as JSON string */
-	exportJSON(): string {
-		return JSON.stringify([...this.pinned], null, 2);
+	/**
+	 * Remove temporary pins whose expiry has passed.
+	 * Returns the expired paths (already unpinned and saved).
+	 */
+	async pruneExpired(now: number = Date.now()): Promise<string[]> {
+		const expired = [...this.records.values()]
+			.filter((r) => r.expiresAt !== undefined && r.expiresAt <= now)
+			.map((r) => r.path);
+		if (expired.length === 0) return expired;
+		expired.forEach((path) => this.remove(path));
+		await this.persist("Temporary pins expired");
+		await this.mirrorToFrontmatter(expired, false);
+		return expired;
 	}
 
-	/** Import pins from JSON string (merges with existing) */
-	async importJSON(json: string): Promise<number> {
-		const arr: unknown = JSON.parse(json);
-		if (!Array.isArray(arr)) throw new Error("Expected a JSON array of file paths");
-		let added = 0;
-		for (const item of arr) {
-			if (typeof item === "string" && !this.pinned.has(item)) {
-				this.pinned.add(item);
-				added++;
-			}
+	/** Copies of every manual pin record, in folder display order. */
+	getRecords(): PinRecord[] {
+		const records: PinRecord[] = [];
+		for (const list of this.order.values()) {
+			for (const path of list) records.push({ ...(this.records.get(path) ?? { path }) });
 		}
-		await this.persist();
-		return added;
+		return records;
+	}
+
+	/** Manual pins and sunk paths, as exported. */
+	getPinSet(): PinSet {
+		return { pins: this.getRecords(), sunk: this.getSunkPaths() };
+	}
+
+	/** Apply a previewed import plan with a single save (no-op for dry runs). */
+	async applyImport(plan: ImportPlan): Promise<void> {
+		if (plan.mode === "dry-run") return;
+		plan.remove.forEach((path) => this.remove(path));
+		plan.unsink.forEach((path) => this.unsinkPath(path));
+		for (const rec of plan.add) {
+			if (!this.pinned.has(rec.path)) this.add(rec.path, { ...rec });
+		}
+		for (const rec of plan.update) {
+			if (this.records.has(rec.path)) this.records.set(rec.path, { ...rec, updatedAt: Date.now() });
+		}
+		plan.sink.forEach((path) => this.sunk.set(path, Date.now()));
+		this.invalidate();
+		await this.fingerprint(plan.add.map((r) => r.path));
+		await this.persist("Import pins");
+		await this.mirrorToFrontmatter(plan.remove, false);
+		await this.mirrorToFrontmatter(plan.add.map((r) => r.path), true);
+	}
+
+	/* ── undo / redo ──────────────────────────────────── */
+
+	/** Label of the change "Undo" would revert, or null if there is none. */
+	getUndoLabel(): string | null {
+		return this.journal.nextUndo(this.profileId())?.label ?? null;
+	}
+
+	/** Label of the change "Redo" would re-apply, or null if there is none. */
+	getRedoLabel(): string | null {
+		return this.journal.nextRedo(this.profileId())?.label ?? null;
+	}
+
+	/** Revert the active profile's last change.  Returns its label, or null. */
+	async undo(): Promise<string | null> {
+		const entry = this.journal.nextUndo(this.profileId());
+		if (!entry) return null;
+		await this.applyStates(this.statesToApply(entry, "before"), null);
+		this.journal.setUndone(entry, true);
+		return entry.label;
+	}
+
+	/** Re-apply the change undone last.  Returns its label, or null. */
+	async redo(): Promise<string | null> {
+		const entry = this.journal.nextRedo(this.profileId());
+		if (!entry) return null;
+		await this.applyStates(this.statesToApply(entry, "after"), null);
+		this.journal.setUndone(entry, false);
+		return entry.label;
+	}
+
+	/** The active profile's journaled changes still in effect, newest first. */
+	getHistory(): readonly PinJournalEntry[] {
+		return this.journal.getHistory(this.profileId());
+	}
+
+	/**
+	 * Pin a path again that `change` unpinned, with its old metadata and,
+	 * if the folder still has room, its old place.  Returns false if it
+	 * is pinned already or `change` didn't unpin anything.
+	 */
+	async restore(change: PinJournalChange): Promise<boolean> {
+		if (!change.before.pin || this.pinned.has(change.path)) return false;
+		const state = { pin: change.before.pin, index: change.before.index };
+		await this.applyStates([{ path: change.path, state }], `Restore pin ${nameOf(change.path)}`);
+		return true;
 	}
 
 	/* ── internal ───────────────────────────────────── */
 
-	private async persist(): Promise<void> {
-		this.plugin.settings.pinnedPaths = [...this.pinned];
+	private profileId(): string {
+		return this.plugin.profiles.getActive().id;
+	}
+
+	/**
+	 * One side of a journaled change, for undo or redo.  Paths it would
+	 * pin or sink whose file no longer exists are skipped, like the
+	 * history's Restore button does.
+	 */
+	private statesToApply(
+		entry: PinJournalEntry,
+		side: "before" | "after",
+	): { path: string; state: PinPathState }[] {
+		const vault = this.plugin.app.vault;
+		return entry.changes
+			.map((c) => ({ path: c.path, state: c[side] }))
+			.filter(({ path, state }) => !(state.pin || state.sunk) || vault.getAbstractFileByPath(path) !== null);
+	}
+
+	/**
+	 * Put each path into the given state — pinned at its index, sunk, or
+	 * neither — with a single save.  Indices are applied lowest first, so
+	 * restoring every path a change touched restores the folder order.
+	 * Expired temporary pins come back as permanent ones.
+	 */
+	private async applyStates(
+		targets: readonly { path: string; state: PinPathState }[],
+		label: string | null,
+	): Promise<void> {
+		const wasPinned = targets.map((t) => t.path).filter((p) => this.pinned.has(p));
+		for (const { path } of targets) {
+			if (this.pinned.has(path)) this.remove(path);
+			this.unsinkPath(path);
+		}
+
+		const now = Date.now();
+		const pins = targets
+			.map(({ path, state }) => ({ path, pin: state.pin, index: state.index ?? Number.MAX_SAFE_INTEGER }))
+			.sort((a, b) => a.index - b.index);
+		for (const { path, pin, index } of pins) {
+			if (!pin) continue;
+			const record: PinRecord = { ...pin, path };
+			if (record.expiresAt !== undefined && record.expiresAt <= now) delete record.expiresAt;
+			this.add(path, record);
+			const list = this.order.get(parentPath(path));
+			if (list && index < list.length - 1) {
+				list.splice(list.indexOf(path), 1);
+				list.splice(index, 0, path);
+			}
+		}
+		for (const { path, state } of targets) {
+			if (state.sunk && !this.pinned.has(path)) this.sunk.set(path, now);
+		}
+		this.invalidate();
+
+		await this.persist(label);
+		const added = targets.map((t) => t.path).filter((p) => this.pinned.has(p) && !wasPinned.includes(p));
+		await this.mirrorToFrontmatter(added, true);
+		await this.mirrorToFrontmatter(wasPinned.filter((p) => !this.pinned.has(p)), false);
+	}
+
+	/** Every manual pin and sunk path with its state, as the journal records it. */
+	private takeSnapshot(): Map<string, PinPathState> {
+		const snapshot = new Map<string, PinPathState>();
+		for (const list of this.order.values()) {
+			list.forEach((path, index) => {
+				snapshot.set(path, { pin: { ...(this.records.get(path) ?? { path }) }, index });
+			});
+		}
+		for (const path of this.sunk.keys()) snapshot.set(path, { ...snapshot.get(path), sunk: true });
+		return snapshot;
+	}
+
+	/**
+	 * Journal what changed since the last call (unless `label` is null)
+	 * and remember the new state.  Without a label, one is made up from
+	 * the changes.
+	 */
+	private recordChanges(label: string | null | undefined): void {
+		const before = this.snapshot;
+		const after = this.takeSnapshot();
+		this.snapshot = after;
+		if (label === null) return;
+
+		const changes: PinJournalChange[] = [];
+		for (const path of new Set([...before.keys(), ...after.keys()])) {
+			const b = before.get(path) ?? {};
+			const a = after.get(path) ?? {};
+			if (stateKey(b) !== stateKey(a)) changes.push({ path, before: b, after: a });
+		}
+		if (changes.length === 0) return;
+		this.journal.record({
+			at: Date.now(),
+			profileId: this.profileId(),
+			label: label ?? describeChanges(changes),
+			changes,
+		});
+	}
+
+	private load(): void {
+		this.order.clear();
+		this.records.clear();
+		this.pinned.clear();
+		this.invalidate();
+		const { pins, removed, sunk } = this.plugin.profiles.getActive();
+		this.removed = new Map(Object.entries(removed ?? {}));
+		this.sunk = new Map(Object.entries(sunk ?? {}));
+		for (const [folder, recs] of Object.entries(pins)) {
+			const list: string[] = [];
+			for (const rec of recs) {
+				if (this.pinned.has(rec.path)) continue;
+				list.push(rec.path);
+				this.pinned.add(rec.path);
+				this.records.set(rec.path, { ...rec });
+			}
+			if (list.length > 0) this.order.set(folder, list);
+		}
+		this.snapshot = this.takeSnapshot();
+	}
+
+	/** Absolute expiry timestamp (epoch ms) for a {@link PinExpiry}. */
+	private static resolveExpiry(expiry: PinExpiry): number {
+		return "durationMs" in expiry
+			? Date.now() + expiry.durationMs
+			: expiry.until.getTime();
+	}
+
+	/** Append a pin to the end of its folder's order. */
+	private add(path: string, record: PinRecord = { path }): void {
+		const folder = parentPath(path);
+		const list = this.order.get(folder);
+		if (list) list.push(path);
+		else this.order.set(folder, [path]);
+		this.pinned.add(path);
+		this.records.set(path, record);
+		record.updatedAt = Date.now();
+		this.removed.delete(path);
+		this.sunk.delete(path);
+		this.invalidate();
+	}
+
+	/**
+	 * Sort pinned children of one folder like the explorer does: by the
+	 * folder's pinned sort mode — in manual mode, manual pins in their
+	 * order and rule pins after them by name — with pinned folders ahead
+	 * of files when `pinnedFoldersFirst` is on.
+	 */
+	private rankChildren(folderPath: string, children: string[]): string[] {
+		const { app, settings } = this.plugin;
+		const files = new Map(children.map((p) => [p, app.vault.getAbstractFileByPath(p)]));
+		const byName = (a: string, b: string) => nameOf(a).localeCompare(nameOf(b), undefined, { numeric: true });
+		const group = (path: string) => (settings.pinnedFoldersFirst && files.get(path) instanceof TFolder ? 0 : 1);
+
+		let compare: (a: string, b: string) => number;
+		const mode = pinnedSortModeFor(settings, folderPath);
+		if (mode === "manual") {
+			const order = this.getFolderOrder(folderPath);
+			const rank = (path: string) => {
+				const index = order.indexOf(path);
+				return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+			};
+			compare = (a, b) => rank(a) - rank(b) || byName(a, b);
+		} else {
+			const compareFiles =
+				mode === "inherit"
+					? compareByOrder(folderSortOrder(app, settings, folderPath))
+					: comparePinned(mode);
+			compare = (a, b) => {
+				const fa = files.get(a);
+				const fb = files.get(b);
+				return fa && fb ? compareFiles(fa, fb) : byName(a, b);
+			};
+		}
+		return [...children].sort((a, b) => group(a) - group(b) || compare(a, b));
+	}
+
+	/** Drop the cached views of the pin set after it changed. */
+	private invalidate(): void {
+		this.combined = null;
+		this.ruleParents = null;
+		this.sunkParents = null;
+	}
+
+	/** Manual pins at `path` or below it, each folder's pins in display order. */
+	private pathsUnder(path: string): string[] {
+		const prefix = path + "/";
+		const paths = this.pinned.has(path) ? [path] : [];
+		for (const [folder, list] of this.order) {
+			if (folder === path || folder.startsWith(prefix)) paths.push(...list);
+		}
+		return paths;
+	}
+
+	/** Sunk paths at `path` or below it. */
+	private sunkUnder(path: string): string[] {
+		const prefix = path + "/";
+		return [...this.sunk.keys()].filter((p) => p === path || p.startsWith(prefix));
+	}
+
+	/** Forget that `path` is sunk, remembering when for merging. */
+	private unsinkPath(path: string): void {
+		if (!this.sunk.delete(path)) return;
+		this.removed.set(path, Date.now());
+		this.invalidate();
+	}
+
+	/** Move a pin to a new path, keeping its place on a same-folder rename. */
+	private transfer(oldPath: string, newPath: string): void {
+		const record = this.records.get(oldPath);
+		if (!record) return;
+		if (this.pinned.has(newPath)) {
+			// Already pinned there (e.g. a stale pin) — keep that one
+			this.remove(oldPath);
+			return;
+		}
+		const moved = { ...record, path: newPath };
+		const list = this.order.get(parentPath(oldPath));
+		if (list && parentPath(oldPath) === parentPath(newPath)) {
+			// Plain rename — keep the pin's place in the folder order
+			list[list.indexOf(oldPath)] = newPath;
+			this.pinned.delete(oldPath);
+			this.records.delete(oldPath);
+			this.removed.set(oldPath, Date.now());
+			this.pinned.add(newPath);
+			this.records.set(newPath, { ...moved, updatedAt: Date.now() });
+			this.removed.delete(newPath);
+			this.invalidate();
+		} else {
+			this.remove(oldPath);
+			this.add(newPath, moved);
+		}
+	}
+
+	private remove(path: string): void {
+		const folder = parentPath(path);
+		const list = this.order.get(folder);
+		if (list) {
+			list.remove(path);
+			if (list.length === 0) this.order.delete(folder);
+		}
+		this.pinned.delete(path);
+		this.records.delete(path);
+		this.removed.set(path, Date.now());
+		this.invalidate();
+	}
+
+	/** Store the current fingerprint of each pinned file among `paths`. */
+	private async fingerprint(paths: readonly string[]): Promise<void> {
+		for (const path of paths) {
+			const record = this.records.get(path);
+			const file = this.plugin.app.vault.getAbstractFileByPath(path);
+			if (record && file instanceof TFile) {
+				record.fingerprint = await fingerprintFile(this.plugin.app.vault, file);
+			}
+		}
+	}
+
+	/** In frontmatter mode, write the pin flag to the given notes. */
+	private async mirrorToFrontmatter(paths: string[], pinned: boolean): Promise<void> {
+		if (this.frontmatter.enabled) await this.writeFrontmatter(paths, pinned);
+	}
+
+	/** Write the pin flag to every markdown note among `paths`. */
+	private async writeFrontmatter(paths: string[], pinned: boolean): Promise<number> {
+		let written = 0;
+		for (const path of paths) {
+			const note = this.frontmatter.getNote(path);
+			if (!note) continue;
+			await this.frontmatter.write(note, pinned);
+			written++;
+		}
+		return written;
+	}
+
+	/**
+	 * Save once for a burst of vault events: every caller within
+	 * `BATCH_MS` of the first shares the same save.  Callers journal
+	 * their own changes first, so only the disk write is shared.
+	 */
+	private saveBatched(): Promise<void> {
+		if (!this.pendingSave) {
+			this.pendingSave = new Promise<void>((resolve) => {
+				window.setTimeout(resolve, PinManager.BATCH_MS);
+			}).then(() => {
+				this.pendingSave = null;
+				return this.save();
+			});
+		}
+		return this.pendingSave;
+	}
+
+	/**
+	 * Save the pins to the active profile, journaling the change under
+	 * `label` (made up when omitted; null for none).
+	 */
+	private async persist(label?: string | null): Promise<void> {
+		this.recordChanges(label);
+		await this.save();
+	}
+
+	/** Write the pins to the active profile and save settings. */
+	private async save(): Promise<void> {
+		const pins: Record<string, PinRecord[]> = {};
+		for (const [folder, list] of this.order) {
+			pins[folder] = list.map((path) => ({ ...(this.records.get(path) ?? { path }) }));
+		}
+		const profile = this.plugin.profiles.getActive();
+		profile.pins = pins;
+		profile.removed = pruneTombstones(Object.fromEntries(this.removed));
+		if (this.sunk.size > 0) profile.sunk = Object.fromEntries(this.sunk);
+		else delete profile.sunk;
 		await this.plugin.saveSettings();
+		this.trigger("changed");
 	}
 }
+
+/**
+ * Compare key of a journaled state: what the user can see changed.
+ * `updatedAt` and the fingerprint are bookkeeping and left out.
+ */
+function stateKey(state: PinPathState): string {
+	const pin = state.pin
+		? Object.entries(state.pin)
+				.filter(([key]) => key !== "updatedAt" && key !== "fingerprint")
+				.sort(([a], [b]) => a.localeCompare(b))
+		: null;
+	return JSON.stringify([pin, state.index ?? null, !!state.sunk]);
+}
+
+/** A label for a journal entry, like "Pin Note.md" or "Unpin 3 items". */
+function describeChanges(changes: readonly PinJournalChange[]): string {
+	const [first] = changes;
+	if (changes.length === 1 && first) {
+		const { before, after } = first;
+		const name = nameOf(first.path);
+		if (!before.pin && after.pin) return `Pin ${name}`;
+		if (before.pin && !after.pin) return after.sunk ? `Sink ${name}` : `Unpin ${name}`;
+		if (!before.sunk && after.sunk) return `Sink ${name}`;
+		if (before.sunk && !after.sunk) return `Unsink ${name}`;
+		return `Change pin ${name}`;
+	}
+	const pinned = changes.filter((c) => !c.before.pin && c.after.pin).length;
+	const unpinned = changes.filter((c) => c.before.pin && !c.after.pin).length;
+	if (pinned === 0 && unpinned === 0 && changes.every((c) => c.before.pin)) return "Reorder pins";
+	if (unpinned === 0) return `Pin ${pinned} items`;
+	if (pinned === 0) return `Unpin ${unpinned} items`;
+	return `Change ${changes.length} pins`;
+}
+
+function nameOf(path: string): string {
+	return path.slice(path.lastIndexOf("/") + 1);
+}
+
+function push<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+	const list = map.get(key);
+	if (list) list.push(value);
+	else map.set(key, [value]);
+}
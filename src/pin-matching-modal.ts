@@ -0,0 +1,72 @@
+import { App, Modal, Setting, TFile, TFolder, Vault } from "obsidian";
+import { globToRegExp } from "./rule-engine";
+
+/**
+ * Asks for a glob (relative to `folder`) and pins every file below the
+ * folder that matches it.  The confirm button shows the live match
+ * count while typing.
+ */
+export class PinMatchingModal extends Modal {
+	private folder: TFolder;
+	private onSubmit: (paths: string[]) => void;
+	private matches: string[] = [];
+
+	constructor(app: App, folder: TFolder, onSubmit: (paths: string[]) => void) {
+		super(app);
+		this.folder = folder;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle(`Pin files in ${this.folder.name} matching…`);
+
+		let button: HTMLButtonElement | null = null;
+		const update = (pattern: string) => {
+			this.matches = this.findMatches(pattern);
+			button?.setText(`Pin ${this.matches.length} file(s)`);
+			button?.toggleAttribute("disabled", this.matches.length === 0);
+		};
+
+		new Setting(contentEl)
+			.setName("Pattern")
+			.setDesc("Glob relative to this folder, e.g. `*.md` or `Meetings/**`. A pattern without `/` matches file names at any depth.")
+			.addText((text) => {
+				text.setPlaceholder("*.md").onChange(update);
+				text.inputEl.addEventListener("keydown", (e) => {
+					if (e.key === "Enter") this.submit();
+				});
+			});
+
+		new Setting(contentEl).addButton((btn) => {
+			btn.setCta().onClick(() => this.submit());
+			button = btn.buttonEl;
+		});
+		update("");
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private submit(): void {
+		if (this.matches.length === 0) return;
+		this.close();
+		this.onSubmit(this.matches);
+	}
+
+	/** Paths of files below the folder whose relative path matches `pattern`. */
+	private findMatches(pattern: string): string[] {
+		const trimmed = pattern.trim();
+		if (!trimmed) return [];
+		const re = globToRegExp(trimmed);
+		const prefix = this.folder.isRoot() ? "" : this.folder.path + "/";
+		const paths: string[] = [];
+		Vault.recurseChildren(this.folder, (file) => {
+			if (file instanceof TFile && re.test(file.path.slice(prefix.length))) {
+				paths.push(file.path);
+			}
+		});
+		return paths;
+	}
+}
@@ -0,0 +1,124 @@
+import type { PinProfile, PinRecord, SimplePinSettings } from "./types";
+
+/** How long removals are remembered so an older copy can't bring a pin back. */
+export const TOMBSTONE_TTL = 30 * 24 * 60 * 60 * 1000;
+
+/** Forget removals older than {@link TOMBSTONE_TTL}. */
+export function pruneTombstones(
+	removed: Record<string, number>,
+	now: number = Date.now(),
+): Record<string, number> {
+	const kept: Record<string, number> = {};
+	for (const [path, at] of Object.entries(removed)) {
+		if (now - at < TOMBSTONE_TTL) kept[path] = at;
+	}
+	return kept;
+}
+
+/**
+ * Merge settings loaded from disk (`remote`, changed by sync or git)
+ * into the ones in memory (`local`), instead of letting the last
+ * writer win:
+ *
+ * - plain settings and rules come from `remote` — they were edited there
+ * - profiles are matched by id and their pins merged per pin (below);
+ *   profiles only one side has are kept, unless either side deleted them
+ *   (`deletedProfiles`)
+ * - the active profile stays the local one while it still exists
+ */
+export function mergeSettings(
+	local: SimplePinSettings,
+	remote: SimplePinSettings,
+): SimplePinSettings {
+	const deletedProfiles: Record<string, number> = { ...remote.deletedProfiles };
+	for (const [id, at] of Object.entries(local.deletedProfiles)) {
+		deletedProfiles[id] = Math.max(deletedProfiles[id] ?? 0, at);
+	}
+
+	const localProfiles = new Map(local.profiles.map((p) => [p.id, p]));
+	let profiles = remote.profiles.map((r) => {
+		const l = localProfiles.get(r.id);
+		return l ? mergeProfile(l, r) : r;
+	});
+	const remoteIds = new Set(remote.profiles.map((p) => p.id));
+	profiles.push(...local.profiles.filter((p) => !remoteIds.has(p.id)));
+	// Keep at least one profile, even if every one was deleted somewhere
+	const kept = profiles.filter((p) => deletedProfiles[p.id] === undefined);
+	if (kept.length > 0) profiles = kept;
+
+	const activeProfileId =
+		[local.activeProfileId, remote.activeProfileId].find((id) => profiles.some((p) => p.id === id)) ??
+		profiles[0]?.id ??
+		remote.activeProfileId;
+	return { ...remote, profiles, activeProfileId, deletedProfiles: pruneTombstones(deletedProfiles) };
+}
+
+/**
+ * Merge two copies of a profile pin by pin.  Each pin's `updatedAt`
+ * is compared with the newest removal of its path (`removed`): a pin
+ * survives if it was added or changed after it was last removed, and
+ * the newer copy's metadata wins.
+ *
+ * Order per folder follows `remote`, with pins only `local` has slotted
+ * in at their local position.
+ *
+ * Sunk paths are merged the same way, by when they were sunk.  A path
+ * that ends up both pinned and sunk stays pinned: sinking a pin leaves
+ * a removal, so a pin that survives it is the newer change.
+ */
+export function mergeProfile(local: PinProfile, remote: PinProfile): PinProfile {
+	const removed: Record<string, number> = { ...(remote.removed ?? {}) };
+	for (const [path, at] of Object.entries(local.removed ?? {})) {
+		removed[path] = Math.max(removed[path] ?? 0, at);
+	}
+
+	const localRecords = recordsByPath(local);
+	const remoteRecords = recordsByPath(remote);
+	const pick = (path: string): PinRecord | null => {
+		const l = localRecords.get(path);
+		const r = remoteRecords.get(path);
+		const newest = !l ? r : !r ? l : (l.updatedAt ?? 0) > (r.updatedAt ?? 0) ? l : r;
+		if (!newest) return null;
+		const removedAt = removed[path];
+		return removedAt === undefined || (newest.updatedAt ?? 0) > removedAt ? newest : null;
+	};
+
+	const pins: Record<string, PinRecord[]> = {};
+	const folders = new Set([...Object.keys(remote.pins), ...Object.keys(local.pins)]);
+	for (const folder of folders) {
+		const order = (remote.pins[folder] ?? []).map((r) => r.path);
+		const localOrder = (local.pins[folder] ?? []).map((r) => r.path);
+		localOrder.forEach((path, index) => {
+			if (!order.includes(path)) order.splice(Math.min(index, order.length), 0, path);
+		});
+		const list = order.map(pick).filter((r): r is PinRecord => r !== null);
+		if (list.length > 0) pins[folder] = list.map((r) => ({ ...r }));
+	}
+
+	const pinned = new Set(Object.values(pins).flatMap((list) => list.map((r) => r.path)));
+	const sunk: Record<string, number> = {};
+	for (const [path, at] of [...Object.entries(remote.sunk ?? {}), ...Object.entries(local.sunk ?? {})]) {
+		if (pinned.has(path) || at < (removed[path] ?? 0)) continue;
+		sunk[path] = Math.max(sunk[path] ?? 0, at);
+	}
+
+	// A removal older than the surviving pin is no longer needed
+	for (const list of Object.values(pins)) {
+		for (const r of list) {
+			if ((removed[r.path] ?? 0) < (r.updatedAt ?? 0)) delete removed[r.path];
+		}
+	}
+
+	const merged: PinProfile = { ...remote, pins, removed: pruneTombstones(removed) };
+	if (Object.keys(sunk).length > 0) merged.sunk = sunk;
+	else delete merged.sunk;
+	return merged;
+}
+
+function recordsByPath(profile: PinProfile): Map<string, PinRecord> {
+	const map = new Map<string, PinRecord>();
+	for (const list of Object.values(profile.pins)) {
+		for (const r of list) map.set(r.path, r);
+	}
+	return map;
+}
@@ -0,0 +1,159 @@
+import { TAbstractFile, TFile, TFolder, Vault } from "obsidian";
+import type SimplePinPlugin from "./main";
+import type { PinFingerprint, PinRecord } from "./types";
+
+/** Notes larger than this are fingerprinted by size and ctime only. */
+const MAX_HASHED_SIZE = 1024 * 1024;
+
+/** Most relink suggestions offered per stale pin. */
+const MAX_CANDIDATES = 5;
+
+/**
+ * Lowest score preselected as a relink: a fingerprint match.  A bare
+ * name match is only offered.
+ */
+export const MIN_SUGGESTED_SCORE = 2;
+
+/** A file that may be where a stale pin's target went. */
+export interface RelinkCandidate {
+	path: string;
+	/** Why it was suggested, shown to the user */
+	reason: string;
+	/** Higher is a more likely match */
+	score: number;
+}
+
+/** A manual pin whose path no longer exists, with suggestions (best first). */
+export interface StalePin {
+	path: string;
+	candidates: RelinkCandidate[];
+}
+
+/** What to do with a stale pin. */
+export type StaleResolution =
+	| { action: "relink"; to: string }
+	| { action: "drop" }
+	| { action: "keep" };
+
+/** Take the fingerprint of a file, hashing its content if it is a small note. */
+export async function fingerprintFile(vault: Vault, file: TFile): Promise<PinFingerprint> {
+	const fingerprint: PinFingerprint = { size: file.stat.size, ctime: file.stat.ctime };
+	if (file.extension === "md" && file.stat.size <= MAX_HASHED_SIZE) {
+		try {
+			fingerprint.hash = hashText(await vault.cachedRead(file));
+		} catch (e) {
+			console.warn(`[Simple Pin] Could not read ${file.path} for its fingerprint:`, e);
+		}
+	}
+	return fingerprint;
+}
+
+/**
+ * Finds manual pins that point to paths which no longer exist — files
+ * renamed or moved while the plugin wasn't running (in another app,
+ * by git, or with the plugin disabled) — and suggests where they went.
+ *
+ * Suggestions come from, in order of confidence:
+ * - a note with the same content hash as when it was pinned
+ * - a file with the same name and size in another folder
+ * - a file with the same size and creation time
+ * - anything else with the same name
+ */
+export class PinReconciler {
+	private plugin: SimplePinPlugin;
+
+	constructor(plugin: SimplePinPlugin) {
+		this.plugin = plugin;
+	}
+
+	/** Stale pins of the active profile, with relink suggestions. */
+	async findStale(): Promise<StalePin[]> {
+		const vault = this.plugin.app.vault;
+		const missing = this.plugin.pinManager
+			.getRecords()
+			.filter((r) => !vault.getAbstractFileByPath(r.path));
+		if (missing.length === 0) return [];
+
+		const byName = new Map<string, TAbstractFile[]>();
+		const bySize = new Map<number, TFile[]>();
+		for (const file of vault.getAllLoadedFiles()) {
+			if (file instanceof TFolder && file.isRoot()) continue;
+			if (this.plugin.pinManager.isManuallyPinned(file.path)) continue;
+			push(byName, file.name, file);
+			if (file instanceof TFile) push(bySize, file.stat.size, file);
+		}
+
+		const hashes = new Map<string, string | undefined>();
+		const stale: StalePin[] = [];
+		for (const record of missing) {
+			stale.push({
+				path: record.path,
+				candidates: await this.suggest(record, byName, bySize, hashes),
+			});
+		}
+		return stale;
+	}
+
+	/* ── internal ───────────────────────────────────── */
+
+	private async suggest(
+		record: PinRecord,
+		byName: Map<string, TAbstractFile[]>,
+		bySize: Map<number, TFile[]>,
+		hashes: Map<string, string | undefined>,
+	): Promise<RelinkCandidate[]> {
+		const found = new Map<string, RelinkCandidate>();
+		const offer = (path: string, score: number, reason: string) => {
+			const current = found.get(path);
+			if (!current || current.score < score) found.set(path, { path, score, reason });
+		};
+
+		const name = record.path.slice(record.path.lastIndexOf("/") + 1);
+		const fp = record.fingerprint;
+
+		for (const file of byName.get(name) ?? []) {
+			if (fp && file instanceof TFile && file.stat.size === fp.size) {
+				offer(file.path, 3, "Same file in a new folder");
+			} else {
+				offer(file.path, 1, "Same name");
+			}
+		}
+
+		if (fp) {
+			for (const file of bySize.get(fp.size) ?? []) {
+				if (fp.hash && file.extension === "md") {
+					if (!hashes.has(file.path)) {
+						hashes.set(file.path, (await fingerprintFile(this.plugin.app.vault, file)).hash);
+					}
+					if (hashes.get(file.path) === fp.hash) {
+						offer(file.path, 4, "Same content");
+						continue;
+					}
+				}
+				if (file.stat.ctime === fp.ctime) offer(file.path, 2, "Same size and creation time");
+			}
+		}
+
+		return [...found.values()]
+			.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+			.slice(0, MAX_CANDIDATES);
+	}
+}
+
+/* ── helpers ───────────────────────────────────── */
+
+function push<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+	const list = map.get(key);
+	if (list) list.push(value);
+	else map.set(key, [value]);
+}
+
+/** 32-bit FNV-1a hash of a string, as hex. */
+function hashText(text: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, "0");
+}
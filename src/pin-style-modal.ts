@@ -0,0 +1,90 @@
+import { App, Modal, Setting, setIcon } from "obsidian";
+
+/** A pin's own indicator icon and color; empty means "use the settings". */
+export interface PinStyle {
+	icon: string;
+	color: string;
+}
+
+/**
+ * Edits the per-pin style overrides: a Lucide icon (with live preview)
+ * and a color.  Both can be reset to the plugin-wide defaults.
+ */
+export class PinStyleModal extends Modal {
+	private name: string;
+	private choice: PinStyle;
+	private onSubmit: (style: PinStyle) => void;
+
+	constructor(app: App, name: string, current: Partial<PinStyle>, onSubmit: (style: PinStyle) => void) {
+		super(app);
+		this.name = name;
+		this.choice = { icon: current.icon ?? "", color: current.color ?? "" };
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle(`Pin style: ${this.name}`);
+
+		const iconSetting = new Setting(contentEl).setName("Icon");
+		const previewEl = iconSetting.controlEl.createDiv("simple-pin-icon-preview");
+		const updatePreview = () => {
+			previewEl.empty();
+			const icon = this.choice.icon.trim();
+			if (icon) setIcon(previewEl, icon);
+			const known = !icon || !!previewEl.querySelector("svg");
+			iconSetting.setDesc(
+				known
+					? "Name of a Lucide icon, such as star or flame. Leave empty for the default indicator."
+					: `No icon named "${icon}".`,
+			);
+		};
+		iconSetting.addText((text) =>
+			text
+				.setPlaceholder("Example: star")
+				.setValue(this.choice.icon)
+				.onChange((value) => {
+					this.choice.icon = value;
+					updatePreview();
+				}),
+		);
+		updatePreview();
+
+		const colorSetting = new Setting(contentEl).setName("Color");
+		const describeColor = () =>
+			colorSetting.setDesc(this.choice.color ? this.choice.color : "Using the default color.");
+		colorSetting
+			.addColorPicker((picker) =>
+				picker.setValue(this.choice.color || "#888888").onChange((value) => {
+					this.choice.color = value;
+					describeColor();
+				}),
+			)
+			.addExtraButton((btn) =>
+				btn
+					.setIcon("rotate-ccw")
+					.setTooltip("Use the default color")
+					.onClick(() => {
+						this.choice.color = "";
+						describeColor();
+					}),
+			);
+		describeColor();
+
+		new Setting(contentEl)
+			.addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+			.addButton((btn) =>
+				btn
+					.setButtonText("Save")
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onSubmit(this.choice);
+					}),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
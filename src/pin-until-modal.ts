@@ -0,0 +1,48 @@
+import { App, Modal, Notice, Setting, moment } from "obsidian";
+
+/**
+ * Asks for the date and time a temporary pin should end.
+ * Calls `onSubmit` with the chosen date once the user confirms.
+ */
+export class PinUntilModal extends Modal {
+	private fileName: string;
+	private onSubmit: (until: Date) => void;
+
+	constructor(app: App, fileName: string, onSubmit: (until: Date) => void) {
+		super(app);
+		this.fileName = fileName;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle(`Pin ${this.fileName} until…`);
+
+		// Default: this time tomorrow, in the format datetime-local expects
+		let value = moment().add(1, "day").format("YYYY-MM-DDTHH:mm");
+
+		new Setting(contentEl).setName("Unpin at").addText((text) => {
+			text.inputEl.type = "datetime-local";
+			text.setValue(value).onChange((v) => (value = v));
+		});
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText("Pin")
+				.setCta()
+				.onClick(() => {
+					const until = moment(value, "YYYY-MM-DDTHH:mm", true);
+					if (!until.isValid() || until.isBefore(moment())) {
+						new Notice("Choose a date and time in the future.");
+						return;
+					}
+					this.close();
+					this.onSubmit(until.toDate());
+				}),
+		);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
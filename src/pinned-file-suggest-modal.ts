@@ -0,0 +1,58 @@
+import { App, FuzzyMatch, FuzzySuggestModal, Keymap, TFile } from "obsidian";
+import type { PinManager } from "./pin-manager";
+
+/**
+ * Quick-switcher style picker over pinned files only (manual and rule
+ * pins).  Shows each file's folder; Mod opens in a new tab, Mod+Alt in
+ * a split — with Enter or a click.
+ */
+export class PinnedFileSuggestModal extends FuzzySuggestModal<TFile> {
+	private pinManager: PinManager;
+
+	constructor(app: App, pinManager: PinManager) {
+		super(app);
+		this.pinManager = pinManager;
+		this.setPlaceholder("Open pinned file…");
+		this.setInstructions([
+			{ command: "↑↓", purpose: "to navigate" },
+			{ command: "↵", purpose: "to open" },
+			{ command: "mod ↵", purpose: "to open in new tab" },
+			{ command: "mod alt ↵", purpose: "to open to the right" },
+			{ command: "esc", purpose: "to dismiss" },
+		]);
+		for (const modifiers of [["Mod"], ["Mod", "Alt"]] as const) {
+			this.scope.register([...modifiers], "Enter", (evt) => {
+				this.selectActiveSuggestion(evt);
+				return false;
+			});
+		}
+	}
+
+	getItems(): TFile[] {
+		const files: TFile[] = [];
+		for (const path of this.pinManager.getPinnedPaths()) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) files.push(file);
+		}
+		return files;
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	renderSuggestion(match: FuzzyMatch<TFile>, el: HTMLElement): void {
+		const file = match.item;
+		el.addClass("mod-complex");
+		const content = el.createDiv("suggestion-content");
+		content.createDiv({ cls: "suggestion-title", text: file.extension === "md" ? file.basename : file.name });
+		content.createDiv({
+			cls: "suggestion-note",
+			text: file.parent && !file.parent.isRoot() ? file.parent.path : "/",
+		});
+	}
+
+	onChooseItem(file: TFile, evt: MouseEvent | KeyboardEvent): void {
+		void this.app.workspace.getLeaf(Keymap.isModEvent(evt)).openFile(file);
+	}
+}
@@ -0,0 +1,199 @@
+import {
+	ItemView,
+	Keymap,
+	SearchComponent,
+	TFile,
+	TFolder,
+	WorkspaceLeaf,
+	debounce,
+	setIcon,
+} from "obsidian";
+import type SimplePinPlugin from "./main";
+import { ConfirmModal } from "./confirm-modal";
+import { parentPath } from "./pin-manager";
+
+export const VIEW_TYPE_PINNED = "simple-pin-pinned";
+
+/**
+ * Sidebar view listing every pinned path in the vault, grouped by
+ * folder.  Click opens (Mod-click in a new tab), hovering previews,
+ * and manual pins can be unpinned inline.  Pins whose file no longer
+ * exists are flagged so they can be cleaned up.  Re-renders whenever
+ * the `PinManager` reports a change.
+ */
+export class PinnedView extends ItemView {
+	private plugin: SimplePinPlugin;
+	private filter = "";
+	private listEl!: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf, plugin: SimplePinPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_PINNED;
+	}
+
+	getDisplayText(): string {
+		return "Pinned";
+	}
+
+	getIcon(): string {
+		return "pin";
+	}
+
+	async onOpen(): Promise<void> {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("simple-pin-view");
+
+		new SearchComponent(container.createDiv("simple-pin-view-filter"))
+			.setPlaceholder("Filter pins…")
+			.onChange((value) => {
+				this.filter = value.trim().toLowerCase();
+				this.renderList();
+			});
+
+		this.listEl = container.createDiv("simple-pin-view-list");
+		this.renderList();
+
+		// Pin changes re-render right away; vault changes only affect
+		// the "missing" flags, so those are batched.
+		const rerender = debounce(() => this.renderList(), 200, true);
+		this.registerEvent(this.plugin.pinManager.on("changed", () => this.renderList()));
+		this.registerEvent(this.app.vault.on("create", rerender));
+		this.registerEvent(this.app.vault.on("delete", rerender));
+		this.registerEvent(this.app.vault.on("rename", rerender));
+	}
+
+	async onClose(): Promise<void> {
+		this.contentEl.empty();
+	}
+
+	/* ── rendering ─────────────────────────────────── */
+
+	private renderList(): void {
+		const el = this.listEl;
+		el.empty();
+
+		const groups = this.collectGroups();
+		if (groups.size === 0) {
+			el.createDiv({
+				cls: "simple-pin-view-empty",
+				text: this.filter ? "No pins match the filter." : "Nothing is pinned yet.",
+			});
+			return;
+		}
+
+		const missing = [...groups.values()]
+			.flat()
+			.filter((p) => this.isMissing(p) && this.plugin.pinManager.isManuallyPinned(p));
+		if (missing.length > 0) {
+			const bar = el.createDiv("simple-pin-view-missing-bar");
+			bar.createSpan({ text: `${missing.length} pin(s) point to missing files.` });
+			bar.createEl("button", { text: "Remove missing" }).onclick = () => {
+				new ConfirmModal(
+					this.app,
+					"Remove missing pins",
+					`Unpin ${missing.length} item(s) whose files no longer exist? "Undo last pin change" brings them back.`,
+					"Remove",
+					() =>
+						void this.plugin.pinManager.unpinMany(missing).then(() => {
+							this.plugin.refreshExplorer();
+						}),
+				).open();
+			};
+		}
+
+		const folders = [...groups.keys()].sort((a, b) =>
+			a === "/" ? -1 : b === "/" ? 1 : a.localeCompare(b),
+		);
+		for (const folder of folders) {
+			const groupEl = el.createDiv("simple-pin-view-group");
+			groupEl.createDiv({
+				cls: "simple-pin-view-folder",
+				text: folder === "/" ? "Vault root" : folder,
+			});
+			for (const path of groups.get(folder) ?? []) {
+				this.renderItem(groupEl, path);
+			}
+		}
+	}
+
+	private renderItem(parentEl: HTMLElement, path: string): void {
+		const pm = this.plugin.pinManager;
+		const file = this.app.vault.getAbstractFileByPath(path);
+		const itemEl = parentEl.createDiv("simple-pin-view-item tree-item-self is-clickable");
+		if (!file) itemEl.addClass("is-missing");
+
+		setIcon(itemEl.createSpan("simple-pin-view-icon"), file instanceof TFolder ? "folder" : "file");
+		itemEl.createSpan({
+			cls: "simple-pin-view-name",
+			text: file?.name ?? path.split("/").pop() ?? path,
+		});
+		if (!file) itemEl.createSpan({ cls: "simple-pin-view-flag", text: "Missing" });
+		if (pm.getPinSource(path) === "rule") {
+			itemEl.createSpan({ cls: "simple-pin-view-flag", text: "Rule" });
+		}
+
+		if (pm.isManuallyPinned(path)) {
+			const btn = itemEl.createSpan("simple-pin-view-unpin clickable-icon");
+			setIcon(btn, "x");
+			btn.setAttr("aria-label", "Unpin");
+			btn.addEventListener("click", (e) => {
+				e.stopPropagation();
+				void pm.unpin(path).then(() => this.plugin.refreshExplorer());
+			});
+		}
+
+		itemEl.addEventListener("click", (e) => {
+			if (file instanceof TFile) {
+				void this.app.workspace.getLeaf(Keymap.isModEvent(e)).openFile(file);
+			} else if (file instanceof TFolder) {
+				this.plugin.revealInExplorer(file);
+			}
+		});
+
+		if (file instanceof TFile) {
+			itemEl.addEventListener("mouseover", (e) => {
+				this.app.workspace.trigger("hover-link", {
+					event: e,
+					source: VIEW_TYPE_PINNED,
+					hoverParent: this,
+					targetEl: itemEl,
+					linktext: file.path,
+				});
+			});
+		}
+	}
+
+	/* ── helpers ───────────────────────────────────── */
+
+	/**
+	 * Pinned paths matching the filter, grouped by parent folder.
+	 * Manual pins come first in their stored order, then rule pins.
+	 */
+	private collectGroups(): Map<string, string[]> {
+		const pm = this.plugin.pinManager;
+		const groups = new Map<string, string[]>();
+		const sorted = [...pm.getPinnedPaths()].sort((a, b) => {
+			const ia = pm.getPinIndex(a);
+			const ib = pm.getPinIndex(b);
+			if (ia === -1 || ib === -1) return ib - ia;
+			return ia - ib;
+		});
+		for (const path of sorted) {
+			if (this.filter && !path.toLowerCase().includes(this.filter)) continue;
+			const folder = parentPath(path);
+			const list = groups.get(folder);
+			if (list) list.push(path);
+			else groups.set(folder, [path]);
+		}
+		return groups;
+	}
+
+	private isMissing(path: string): boolean {
+		return this.app.vault.getAbstractFileByPath(path) === null;
+	}
+}
@@ -0,0 +1,166 @@
+import type SimplePinPlugin from "./main";
+import { pruneTombstones } from "./pin-merge";
+import type { PinProfile } from "./types";
+
+/** The parts of the Workspaces core plugin we read. */
+interface WorkspacesPluginInstance {
+	activeWorkspace?: string;
+	workspaces?: Record<string, unknown>;
+}
+
+/**
+ * Manages the named pin sets ("profiles") stored in settings –
+ * create, rename, duplicate, delete, switch.
+ *
+ * `PinManager` only ever reads and writes the active profile's pins;
+ * switching profiles reloads it and refreshes the explorer.
+ */
+export class ProfileManager {
+	/** Id of the profile created for pins from before profiles existed */
+	static readonly DEFAULT_ID = "default";
+
+	private plugin: SimplePinPlugin;
+
+	constructor(plugin: SimplePinPlugin) {
+		this.plugin = plugin;
+	}
+
+	/* ── queries ───────────────────────────────────── */
+
+	list(): readonly PinProfile[] {
+		return this.plugin.settings.profiles;
+	}
+
+	get(id: string): PinProfile | undefined {
+		return this.plugin.settings.profiles.find((p) => p.id === id);
+	}
+
+	/** The active profile (falls back to the first one if the id is stale). */
+	getActive(): PinProfile {
+		const { profiles, activeProfileId } = this.plugin.settings;
+		const active = this.get(activeProfileId) ?? profiles[0];
+		if (!active) throw new Error("Simple Pin: no pin profile available");
+		return active;
+	}
+
+	/** Name of the layout last loaded by the Workspaces core plugin, if any. */
+	getLoadedWorkspace(): string | null {
+		return this.getWorkspacesPlugin()?.activeWorkspace || null;
+	}
+
+	/** Names of all layouts saved with the Workspaces core plugin. */
+	listWorkspaces(): string[] {
+		return Object.keys(this.getWorkspacesPlugin()?.workspaces ?? {});
+	}
+
+	/** Profile bound to the workspace layout `name`, if any. */
+	findByWorkspace(name: string): PinProfile | undefined {
+		return this.plugin.settings.profiles.find((p) => p.workspace === name);
+	}
+
+	/* ── mutations ──────────────────────────────────── */
+
+	/** Make `id` the active profile and show its pins. */
+	async switchTo(id: string): Promise<boolean> {
+		const profile = this.get(id);
+		if (!profile || profile.id === this.plugin.settings.activeProfileId) return false;
+		this.plugin.settings.activeProfileId = profile.id;
+		await this.plugin.saveSettings();
+		this.plugin.pinManager.reload();
+		this.plugin.refreshExplorer();
+		return true;
+	}
+
+	/** Create an empty profile (not activated). */
+	async create(name: string): Promise<PinProfile> {
+		const profile: PinProfile = { id: this.newId(), name: this.uniqueName(name), pins: {} };
+		this.plugin.settings.profiles.push(profile);
+		await this.plugin.saveSettings();
+		return profile;
+	}
+
+	/** Copy a profile's pins and sunk items into a new profile (not activated). */
+	async duplicate(id: string): Promise<PinProfile | null> {
+		const source = this.get(id);
+		if (!source) return null;
+		const profile: PinProfile = {
+			id: this.newId(),
+			name: this.uniqueName(`${source.name} copy`),
+			pins: structuredClone(source.pins),
+		};
+		if (source.sunk) profile.sunk = { ...source.sunk };
+		this.plugin.settings.profiles.push(profile);
+		await this.plugin.saveSettings();
+		return profile;
+	}
+
+	async rename(id: string, name: string): Promise<void> {
+		const profile = this.get(id);
+		const trimmed = name.trim();
+		if (!profile || !trimmed || trimmed === profile.name) return;
+		profile.name = this.uniqueName(trimmed);
+		await this.plugin.saveSettings();
+	}
+
+	/** Bind a profile to a workspace layout name ("" to unbind). */
+	async setWorkspace(id: string, workspace: string): Promise<void> {
+		const profile = this.get(id);
+		if (!profile) return;
+		const trimmed = workspace.trim();
+		if (trimmed) profile.workspace = trimmed;
+		else delete profile.workspace;
+		await this.plugin.saveSettings();
+	}
+
+	/**
+	 * Delete a profile.  The last remaining profile can't be deleted;
+	 * deleting the active one switches to the first remaining profile.
+	 * The deletion is remembered so merging an older copy of the
+	 * settings doesn't restore the profile.
+	 */
+	async delete(id: string): Promise<boolean> {
+		const { settings } = this.plugin;
+		const profile = this.get(id);
+		if (!profile || settings.profiles.length <= 1) return false;
+		settings.profiles.remove(profile);
+		settings.deletedProfiles = pruneTombstones({ ...settings.deletedProfiles, [id]: Date.now() });
+		if (settings.activeProfileId === id) {
+			settings.activeProfileId = this.getActive().id;
+			await this.plugin.saveSettings();
+			this.plugin.pinManager.reload();
+			this.plugin.refreshExplorer();
+		} else {
+			await this.plugin.saveSettings();
+		}
+		return true;
+	}
+
+	/* ── internal ───────────────────────────────────── */
+
+	/**
+	 * The Workspaces core plugin instance.  Not part of the public API,
+	 * so every access is optional and a missing plugin reads as "none".
+	 */
+	private getWorkspacesPlugin(): WorkspacesPluginInstance | null {
+		const app = this.plugin.app as unknown as {
+			internalPlugins?: {
+				getPluginById?(id: string): { enabled?: boolean; instance?: WorkspacesPluginInstance } | null;
+			};
+		};
+		const workspaces = app.internalPlugins?.getPluginById?.("workspaces");
+		return workspaces?.enabled ? (workspaces.instance ?? null) : null;
+	}
+
+	private newId(): string {
+		return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+	}
+
+	/** `name`, or `name 2`, `name 3`, … if already taken. */
+	private uniqueName(name: string): string {
+		const taken = new Set(this.plugin.settings.profiles.map((p) => p.name));
+		if (!taken.has(name)) return name;
+		let n = 2;
+		while (taken.has(`${name} ${n}`)) n++;
+		return `${name} ${n}`;
+	}
+}
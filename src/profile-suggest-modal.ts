@@ -0,0 +1,30 @@
+import { App, FuzzySuggestModal, Notice } from "obsidian";
+import type { ProfileManager } from "./profile-manager";
+import type { PinProfile } from "./types";
+
+/** Command-palette style picker for switching the active pin profile. */
+export class ProfileSuggestModal extends FuzzySuggestModal<PinProfile> {
+	private profiles: ProfileManager;
+
+	constructor(app: App, profiles: ProfileManager) {
+		super(app);
+		this.profiles = profiles;
+		this.setPlaceholder("Switch to pin profile…");
+	}
+
+	getItems(): PinProfile[] {
+		return [...this.profiles.list()];
+	}
+
+	getItemText(profile: PinProfile): string {
+		return profile.id === this.profiles.getActive().id
+			? `${profile.name} (active)`
+			: profile.name;
+	}
+
+	onChooseItem(profile: PinProfile): void {
+		void this.profiles.switchTo(profile.id).then((switched) => {
+			if (switched) new Notice(`Pin profile: ${profile.name}`);
+		});
+	}
+}
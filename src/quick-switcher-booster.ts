@@ -0,0 +1,90 @@
+import { TFile } from "obsidian";
+import type SimplePinPlugin from "./main";
+
+type GetSuggestions = (this: unknown, ...args: unknown[]) => unknown;
+
+/** The parts of the core Quick Switcher plugin we reach into. */
+interface SwitcherInstance {
+	QuickSwitcherModal?: { prototype: { getSuggestions?: GetSuggestions } };
+}
+
+/**
+ * Optionally ranks pinned files first in the core Quick Switcher,
+ * keeping the switcher's own order within the pinned and unpinned
+ * groups.
+ *
+ * Wraps the switcher modal's internal `getSuggestions()`.
+ */
+export class QuickSwitcherBooster {
+	private plugin: SimplePinPlugin;
+	/** The prototype we patched (so we can restore it) */
+	private patchedProto: { getSuggestions?: GetSuggestions } | null = null;
+	private original: GetSuggestions | null = null;
+
+	constructor(plugin: SimplePinPlugin) {
+		this.plugin = plugin;
+	}
+
+	/** Patch or restore the switcher to match the setting. */
+	update(): void {
+		if (this.plugin.settings.boostQuickSwitcher) this.patch();
+		else this.unpatch();
+	}
+
+	unpatch(): void {
+		if (this.patchedProto && this.original) {
+			this.patchedProto.getSuggestions = this.original;
+		}
+		this.patchedProto = null;
+		this.original = null;
+	}
+
+	/* ── internal ───────────────────────────────────── */
+
+	private patch(): void {
+		if (this.patchedProto) return;
+		try {
+			const internal = (this.plugin.app as unknown as {
+				internalPlugins?: { getPluginById?(id: string): { instance?: SwitcherInstance } | null };
+			}).internalPlugins;
+			const proto = internal?.getPluginById?.("switcher")?.instance?.QuickSwitcherModal?.prototype;
+			const original = proto?.getSuggestions;
+			if (!proto || typeof original !== "function") {
+				console.warn("[Simple Pin] Quick switcher internals not found — pinned files won't be ranked first.");
+				return;
+			}
+
+			// eslint-disable-next-line @typescript-eslint/no-this-alias
+			const booster = this;
+			proto.getSuggestions = function (this: unknown, ...args: unknown[]) {
+				const results = original.apply(this, args);
+				try {
+					return results instanceof Promise
+						? results.then((r) => booster.boost(r))
+						: booster.boost(results);
+				} catch (e) {
+					console.warn("[Simple Pin] Quick switcher boost failed:", e);
+					return results;
+				}
+			};
+			this.patchedProto = proto;
+			this.original = original;
+		} catch (e) {
+			console.warn("[Simple Pin] Could not patch the quick switcher:", e);
+		}
+	}
+
+	/** Move results for pinned files to the front, keeping the order otherwise. */
+	private boost(results: unknown): unknown {
+		if (!Array.isArray(results)) return results;
+		const pm = this.plugin.pinManager;
+		const pinned: unknown[] = [];
+		const rest: unknown[] = [];
+		for (const result of results) {
+			const file = (result as { file?: unknown } | null)?.file;
+			if (file instanceof TFile && pm.isPinned(file.path)) pinned.push(result);
+			else rest.push(result);
+		}
+		return pinned.length === 0 ? results : [...pinned, ...rest];
+	}
+}
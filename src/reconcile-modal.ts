@@ -0,0 +1,116 @@
+import { App, Modal, Setting } from "obsidian";
+import { MIN_SUGGESTED_SCORE, RelinkCandidate, StalePin, StaleResolution } from "./pin-reconciler";
+
+/**
+ * Lists pins whose files are missing and lets the user decide, per pin,
+ * to relink it to one of the suggested files, drop it, or keep it as
+ * is.  Pins whose best suggestion is backed by their fingerprint
+ * default to it; the rest (a bare name match included) default to
+ * "keep".  `onSubmit` gets every decision at once.
+ */
+export class ReconcileModal extends Modal {
+	private stale: StalePin[];
+	private onSubmit: (decisions: Map<string, StaleResolution>) => void;
+	private decisions: Map<string, StaleResolution> = new Map();
+
+	constructor(
+		app: App,
+		stale: StalePin[],
+		onSubmit: (decisions: Map<string, StaleResolution>) => void,
+	) {
+		super(app);
+		this.stale = stale;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		this.setTitle("Missing pins");
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("p", {
+			text: `${this.stale.length} pin(s) point to files that no longer exist, probably renamed or moved while Simple Pin wasn't running.`,
+		});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Relink all suggested").onClick(() => this.setAll(true)),
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Drop all unmatched").onClick(() => this.setAll(false)),
+			);
+
+		for (const pin of this.stale) {
+			const best = suggestion(pin);
+			if (!this.decisions.has(pin.path)) {
+				this.decisions.set(pin.path, best ? { action: "relink", to: best.path } : { action: "keep" });
+			}
+
+			const describe = (value: string) =>
+				pin.candidates.find((c) => value === `relink:${c.path}`)?.reason ??
+				(best
+					? `Suggested: ${best.path} (${best.reason.toLowerCase()})`
+					: pin.candidates.length > 0
+						? "Only files with the same name found."
+						: "No likely match found.");
+
+			const setting = new Setting(contentEl).setName(pin.path);
+			setting.addDropdown((dd) => {
+				for (const c of pin.candidates) dd.addOption(`relink:${c.path}`, `Relink to ${c.path}`);
+				dd.addOption("keep", "Keep pin");
+				dd.addOption("drop", "Drop pin");
+				dd.setValue(toOption(this.decisions.get(pin.path)));
+				setting.setDesc(describe(dd.getValue()));
+				dd.onChange((value) => {
+					this.decisions.set(pin.path, fromOption(value));
+					setting.setDesc(describe(value));
+				});
+			});
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+			.addButton((btn) =>
+				btn
+					.setButtonText("Apply")
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onSubmit(this.decisions);
+					}),
+			);
+	}
+
+	/** Relink every pin that has a suggestion, or drop every pin that has none. */
+	private setAll(relink: boolean): void {
+		for (const pin of this.stale) {
+			const best = suggestion(pin);
+			if (relink && best) this.decisions.set(pin.path, { action: "relink", to: best.path });
+			else if (!relink && pin.candidates.length === 0) this.decisions.set(pin.path, { action: "drop" });
+		}
+		this.render();
+	}
+}
+
+/** The candidate to preselect: the best one, if a fingerprint backs it. */
+function suggestion(pin: StalePin): RelinkCandidate | undefined {
+	const best = pin.candidates[0];
+	return best && best.score >= MIN_SUGGESTED_SCORE ? best : undefined;
+}
+
+function toOption(resolution: StaleResolution | undefined): string {
+	if (!resolution || resolution.action === "keep") return "keep";
+	return resolution.action === "drop" ? "drop" : `relink:${resolution.to}`;
+}
+
+function fromOption(value: string): StaleResolution {
+	if (value.startsWith("relink:")) return { action: "relink", to: value.slice("relink:".length) };
+	return value === "drop" ? { action: "drop" } : { action: "keep" };
+}
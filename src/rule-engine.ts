@@ -0,0 +1,167 @@
+import { CachedMetadata, TAbstractFile, TFile, TFolder, getAllTags } from "obsidian";
+import type SimplePinPlugin from "./main";
+import type { PinRule } from "./types";
+
+/**
+ * Evaluates the user's pin rules (glob, tag, frontmatter) against the
+ * vault and `app.metadataCache`, and keeps the set of rule-derived
+ * pinned paths up to date.
+ *
+ * Rule pins are never written to settings — they are recomputed on
+ * load and re-checked per file whenever its metadata changes.
+ */
+export class RuleEngine {
+	private plugin: SimplePinPlugin;
+	/** Paths currently matched by at least one enabled rule */
+	private matched: Set<string> = new Set();
+	/** Enabled, non-empty rules as of the last recompute() */
+	private active: PinRule[] = [];
+	/** Compiled glob patterns, keyed by rule id */
+	private globs: Map<string, RegExp> = new Map();
+
+	constructor(plugin: SimplePinPlugin) {
+		this.plugin = plugin;
+	}
+
+	/* ── queries ───────────────────────────────────── */
+
+	matches(path: string): boolean {
+		return this.matched.has(path);
+	}
+
+	getMatches(): ReadonlySet<string> {
+		return this.matched;
+	}
+
+	/** True when at least one enabled rule exists. */
+	hasRules(): boolean {
+		return this.active.length > 0;
+	}
+
+	/* ── evaluation ────────────────────────────────── */
+
+	/**
+	 * Re-read the rules from settings and evaluate them against every
+	 * file and folder in the vault.
+	 */
+	recompute(): void {
+		this.active = this.plugin.settings.pinRules.filter(
+			(r) => r.enabled && r.value.trim() !== "",
+		);
+		this.compileGlobs();
+		this.matched.clear();
+		if (!this.hasRules()) return;
+
+		for (const file of this.plugin.app.vault.getAllLoadedFiles()) {
+			if (this.evaluate(file)) this.matched.add(file.path);
+		}
+	}
+
+	/**
+	 * Re-evaluate a single file (after a metadata change or rename).
+	 * Returns true if its rule-pinned state changed.
+	 */
+	recheck(file: TAbstractFile): boolean {
+		const was = this.matched.has(file.path);
+		const now = this.evaluate(file);
+		if (was === now) return false;
+		if (now) this.matched.add(file.path);
+		else this.matched.delete(file.path);
+		return true;
+	}
+
+	/**
+	 * Forget a path that no longer exists, and everything below it if it
+	 * was a folder.  Returns true if any of them was matched.
+	 */
+	forget(path: string): boolean {
+		const prefix = path + "/";
+		let forgot = this.matched.delete(path);
+		for (const p of this.matched) {
+			if (p.startsWith(prefix)) forgot = this.matched.delete(p) || forgot;
+		}
+		return forgot;
+	}
+
+	/* ── internal ───────────────────────────────────── */
+
+	private compileGlobs(): void {
+		this.globs.clear();
+		for (const rule of this.active) {
+			if (rule.type === "glob") {
+				this.globs.set(rule.id, globToRegExp(rule.value.trim()));
+			}
+		}
+	}
+
+	private evaluate(file: TAbstractFile): boolean {
+		if (this.active.length === 0) return false;
+		if (file instanceof TFolder && file.isRoot()) return false;
+		const cache =
+			file instanceof TFile
+				? this.plugin.app.metadataCache.getFileCache(file)
+				: null;
+		return this.active.some((rule) => this.test(rule, file, cache));
+	}
+
+	private test(
+		rule: PinRule,
+		file: TAbstractFile,
+		cache: CachedMetadata | null,
+	): boolean {
+		const value = rule.value.trim();
+		switch (rule.type) {
+			case "glob": {
+				const re = this.globs.get(rule.id) ?? globToRegExp(value);
+				return re.test(file.path);
+			}
+			case "tag": {
+				if (!cache) return false;
+				const wanted = normalizeTag(value);
+				return (getAllTags(cache) ?? []).some((t) => {
+					const tag = normalizeTag(t);
+					return tag === wanted || tag.startsWith(wanted + "/");
+				});
+			}
+			case "frontmatter": {
+				const fm = cache?.frontmatter;
+				if (!fm) return false;
+				const sep = value.indexOf(":");
+				const key = (sep === -1 ? value : value.slice(0, sep)).trim();
+				const actual: unknown = fm[key];
+				if (sep === -1) return actual !== undefined && actual !== null && actual !== false;
+				return String(actual) === value.slice(sep + 1).trim();
+			}
+		}
+	}
+}
+
+/** Lower-cased tag without its leading "#". */
+function normalizeTag(tag: string): string {
+	return tag.replace(/^#/, "").toLowerCase();
+}
+
+/**
+ * Convert a vault glob into an anchored RegExp:
+ * `**` matches across folders, `*` within one path segment, `?` a
+ * single character.  A pattern without a "/" matches at any depth.
+ */
+export function globToRegExp(glob: string): RegExp {
+	const pattern = glob.includes("/") ? glob.replace(/^\//, "") : `**/${glob}`;
+	let re = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const ch = pattern.charAt(i);
+		if (ch === "*" && pattern.charAt(i + 1) === "*") {
+			const slash = pattern.charAt(i + 2) === "/";
+			re += slash ? "(?:.*/)?" : ".*";
+			i += slash ? 2 : 1;
+		} else if (ch === "*") {
+			re += "[^/]*";
+		} else if (ch === "?") {
+			re += "[^/]";
+		} else {
+			re += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${re}$`);
+}
@@ -1,5 +1,32 @@
-import { App, Notice, PluginSettingTab, Setting } from "obsidian";
+import { App, Notice, PluginSettingTab, Setting, debounce, normalizePath } from "obsidian";
 import type SimplePinPlugin from "./main";
+import { ConfirmModal } from "./confirm-modal";
+import { ExportModal } from "./export-modal";
+import { ImportModal } from "./import-modal";
+import { PinHistoryModal } from "./pin-history-modal";
+import { EXPLORER_SORT_LABELS, PINNED_SORT_LABELS } from "./sort-modes";
+import {
+	DEFAULT_SETTINGS,
+	ExplorerSortOrder,
+	FolderSort,
+	IndicatorPosition,
+	PinRule,
+	PinRuleType,
+	PinnedSortMode,
+	RowHighlight,
+} from "./types";
+
+const RULE_TYPE_LABELS: Record<PinRuleType, string> = {
+	glob: "Path glob",
+	tag: "Tag",
+	frontmatter: "Frontmatter",
+};
+
+const RULE_PLACEHOLDERS: Record<PinRuleType, string> = {
+	glob: "**/index.md",
+	tag: "#moc",
+	frontmatter: "pinned: true",
+};
 
 export class SimplePinSettingTab extends PluginSettingTab {
 	plugin: SimplePinPlugin;
@@ -9,16 +36,40 @@ export class SimplePinSettingTab extends PluginSettingTab {
 		this.plugin = plugin;
 	}
 
+	/** Save rules and re-evaluate them — debounced while typing. */
+	private applyRules = debounce(
+		async () => {
+			await this.plugin.saveSettings();
+			this.plugin.pinManager.reloadRules();
+			this.plugin.refreshExplorer();
+		},
+		500,
+		true,
+	);
+
+	/** Save sort settings and re-sort the explorer — debounced while typing. */
+	private applySorting = debounce(
+		async () => {
+			await this.plugin.saveSettings();
+			this.plugin.refreshExplorer();
+		},
+		500,
+		true,
+	);
+
 	display(): void {
 		const { containerEl } = this;
 		containerEl.empty();
 
 		containerEl.createEl("h2", { text: "Simple Pin settings" });
 
+		/* ── Profiles ─────────────────────────────────── */
+		this.displayProfiles(containerEl);
+
 		/* ── Pin indicator toggle ─────────────────────── */
 		new Setting(containerEl)
 			.setName("Show pin indicator")
-			.setDesc("Display a 📌 icon next to pinned files in the File Explorer.")
+			.setDesc("Display a 📌 icon next to pinned files and folders in the file explorer.")
 			.addToggle((toggle) =>
 				toggle
 					.setValue(this.plugin.settings.showPinIndicator)
@@ -29,59 +80,557 @@ export class SimplePinSettingTab extends PluginSettingTab {
 					}),
 			);
 
+		/* ── Indicator + row styling ──────────────────── */
+		this.displayIndicatorStyle(containerEl);
+
+		/* ── Pinned folders first ─────────────────────── */
+		new Setting(containerEl)
+			.setName("Pinned folders first")
+			.setDesc(
+				"Sort pinned folders above pinned files. When off, pinned folders and files keep the explorer's own order.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.pinnedFoldersFirst)
+					.onChange(async (value) => {
+						this.plugin.settings.pinnedFoldersFirst = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshExplorer();
+					}),
+			);
+
+		/* ── Pinned sort mode + folder overrides ─────── */
+		this.displaySorting(containerEl);
+
+		/* ── Global pinned section ────────────────────── */
+		new Setting(containerEl)
+			.setName("Global pinned section")
+			.setDesc(
+				"Show a section at the top of the file explorer with shortcuts to pins chosen from the right-click menu, wherever they live in the vault.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showGlobalSection)
+					.onChange(async (value) => {
+						this.plugin.settings.showGlobalSection = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshExplorer();
+					}),
+			);
+
+		/* ── Quick switcher boost ─────────────────────── */
+		new Setting(containerEl)
+			.setName("Pinned files first in quick switcher")
+			.setDesc("Rank pinned files above other matches in the core quick switcher.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.boostQuickSwitcher)
+					.onChange(async (value) => {
+						this.plugin.settings.boostQuickSwitcher = value;
+						await this.plugin.saveSettings();
+						this.plugin.quickSwitcher.update();
+					}),
+			);
+
+		/* ── Pin state outside the explorer ───────────── */
+		this.displayWorkspaceIndicators(containerEl);
+
+		/* ── Pin rules ────────────────────────────────── */
+		this.displayRules(containerEl);
+
+		/* ── Pin storage ──────────────────────────────── */
+		this.displayStorage(containerEl);
+
 		/* ── Clear all pins ───────────────────────────── */
 		new Setting(containerEl)
 			.setName("Clear all pins")
-			.setDesc("Remove every pinned file at once.")
+			.setDesc("Remove every pinned and sunk file and folder in the active profile at once.")
 			.addButton((btn) =>
 				btn
 					.setButtonText("Clear all")
 					.setWarning()
-					.onClick(async () => {
-						await this.plugin.pinManager.clearAll();
-						this.plugin.refreshExplorer();
-						new Notice("All pins cleared.");
+					.onClick(() => {
+						new ConfirmModal(
+							this.app,
+							"Clear all pins",
+							`Remove every pin and sunk item of the "${this.plugin.profiles.getActive().name}" profile? "Undo last pin change" brings them back.`,
+							"Clear all",
+							() =>
+								void this.plugin.pinManager.clearAll().then(() => {
+									this.plugin.refreshExplorer();
+									new Notice("All pins cleared.");
+								}),
+						).open();
 					}),
 			);
 
+		/* ── Pin history ──────────────────────────────── */
+		new Setting(containerEl)
+			.setName("Pin history")
+			.setDesc("Days pin changes can be undone or restored from the pin history.")
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text.inputEl.min = "1";
+				text
+					.setValue(String(this.plugin.settings.historyDays))
+					.onChange(async (value) => {
+						const days = Number(value);
+						if (!Number.isInteger(days) || days < 1) return;
+						this.plugin.settings.historyDays = days;
+						await this.plugin.saveSettings();
+					});
+			})
+			.addButton((btn) =>
+				btn.setButtonText("Open history").onClick(() => {
+					new PinHistoryModal(this.plugin).open();
+				}),
+			);
+
 		/* ── Export pins ──────────────────────────────── */
 		new Setting(containerEl)
 			.setName("Export pins")
-			.setDesc("Copy pinned paths as JSON to clipboard.")
+			.setDesc("Save the active profile's pins, with their metadata, to a JSON file in the vault or to the clipboard.")
 			.addButton((btn) =>
-				btn.setButtonText("Export").onClick(async () => {
-					const json = this.plugin.pinManager.exportJSON();
-					await navigator.clipboard.writeText(json);
-					new Notice("Pinned paths copied to clipboard.");
+				btn.setButtonText("Export").onClick(() => {
+					new ExportModal(this.app, this.plugin).open();
 				}),
 			);
 
 		/* ── Import pins ──────────────────────────────── */
 		new Setting(containerEl)
 			.setName("Import pins")
-			.setDesc("Paste a JSON array of file paths to add as pins.")
-			.addText((text) =>
-				text.setPlaceholder('["path/to/file.md", ...]'),
+			.setDesc("Merge or replace pins from an export, with a preview of every change first.")
+			.addButton((btn) =>
+				btn.setButtonText("Import").onClick(() => {
+					new ImportModal(this.app, this.plugin).open();
+				}),
+			);
+
+		this.displayQuarantine(containerEl);
+	}
+
+	/** Entries set aside as malformed when settings were loaded, if any. */
+	private displayQuarantine(containerEl: HTMLElement): void {
+		const quarantine = this.plugin.settings.quarantine;
+		if (quarantine.length === 0) return;
+
+		new Setting(containerEl)
+			.setName("Quarantined entries")
+			.setDesc(
+				`${quarantine.length} malformed entr${quarantine.length === 1 ? "y was" : "ies were"} set aside while loading. Copy them to repair by hand, or discard them.`,
 			)
+			.setHeading()
 			.addButton((btn) =>
-				btn.setButtonText("Import").onClick(async () => {
-					const input = containerEl.querySelector<HTMLInputElement>(
-						".setting-item:last-child input",
-					);
-					const raw = input?.value ?? "";
-					if (!raw.trim()) {
-						new Notice("Paste a JSON array first.");
-						return;
-					}
-					try {
-						const count =
-							await this.plugin.pinManager.importJSON(raw);
-						this.plugin.refreshExplorer();
-						new Notice(`Imported ${count} new pin(s).`);
-					} catch {
-						new Notice("Invalid JSON. Expected an array of paths.");
-					}
+				btn.setButtonText("Copy").onClick(async () => {
+					await navigator.clipboard.writeText(JSON.stringify(quarantine, null, 2));
+					new Notice("Damaged entries copied to the clipboard.");
 				}),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Discard")
+					.setWarning()
+					.onClick(async () => {
+						this.plugin.settings.quarantine = [];
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+
+		for (const entry of quarantine) {
+			new Setting(containerEl)
+				.setName(entry.reason)
+				.setDesc(JSON.stringify(entry.value) ?? String(entry.value));
+		}
+	}
+
+	/** Active profile picker plus create / rename / duplicate / delete. */
+	private displayProfiles(containerEl: HTMLElement): void {
+		const profiles = this.plugin.profiles;
+		const active = profiles.getActive();
+
+		new Setting(containerEl)
+			.setName("Pin profile")
+			.setDesc("Each profile is its own set of pins. Only the active profile is shown.")
+			.addDropdown((dd) => {
+				for (const p of profiles.list()) dd.addOption(p.id, p.name);
+				dd.setValue(active.id).onChange(async (id) => {
+					await profiles.switchTo(id);
+					this.display();
+				});
+			})
+			.addExtraButton((btn) =>
+				btn
+					.setIcon("plus")
+					.setTooltip("New profile")
+					.onClick(async () => {
+						const created = await profiles.create("New profile");
+						await profiles.switchTo(created.id);
+						this.display();
+					}),
+			)
+			.addExtraButton((btn) =>
+				btn
+					.setIcon("copy")
+					.setTooltip("Duplicate profile")
+					.onClick(async () => {
+						const copy = await profiles.duplicate(active.id);
+						if (copy) await profiles.switchTo(copy.id);
+						this.display();
+					}),
+			)
+			.addExtraButton((btn) =>
+				btn
+					.setIcon("trash")
+					.setTooltip("Delete profile")
+					.setDisabled(profiles.list().length <= 1)
+					.onClick(() => {
+						new ConfirmModal(
+							this.app,
+							"Delete pin profile",
+							`Delete the "${active.name}" profile and all of its pins? This can't be undone.`,
+							"Delete",
+							() =>
+								void profiles.delete(active.id).then((deleted) => {
+									if (deleted) new Notice(`Deleted pin profile: ${active.name}`);
+									this.display();
+								}),
+						).open();
+					}),
 			);
+
+		// Renamed once editing is done (on blur or Enter), so a half-typed
+		// name never clashes with another profile's and gets a suffix
+		new Setting(containerEl)
+			.setName("Profile name")
+			.addText((text) => {
+				text.setValue(active.name);
+				text.inputEl.addEventListener("change", () => {
+					void profiles.rename(active.id, text.getValue()).then(() => this.display());
+				});
+			});
+
+		const workspaces = profiles.listWorkspaces();
+		new Setting(containerEl)
+			.setName("Switch with workspace")
+			.setDesc(
+				workspaces.length > 0
+					? "Activate this profile automatically when the chosen workspace layout is loaded."
+					: "Enable the Workspaces core plugin and save a layout to switch profiles with it.",
+			)
+			.addDropdown((dd) => {
+				dd.addOption("", "None");
+				for (const name of workspaces) dd.addOption(name, name);
+				if (active.workspace && !workspaces.includes(active.workspace)) {
+					dd.addOption(active.workspace, active.workspace);
+				}
+				dd.setValue(active.workspace ?? "").onChange(async (value) => {
+					await profiles.setWorkspace(active.id, value);
+				});
+			});
+	}
+
+	/** Indicator icon and placement, pinned-row highlight and its color. */
+	private displayIndicatorStyle(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		const save = async () => {
+			await this.plugin.saveSettings();
+			this.plugin.refreshExplorer();
+			this.plugin.workspaceIndicators.schedule();
+		};
+
+		new Setting(containerEl)
+			.setName("Indicator icon")
+			.setDesc("Icon name, for example pin or star. Leave empty for the 📌 emoji. Pins can override it from their menu.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Example: pin")
+					.setValue(settings.indicatorIcon)
+					.onChange(async (value) => {
+						settings.indicatorIcon = value.trim();
+						await save();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Indicator position")
+			.setDesc("Show the indicator before or after the name.")
+			.addDropdown((dd) =>
+				dd
+					.addOption("prefix", "Before the name")
+					.addOption("suffix", "After the name")
+					.setValue(settings.indicatorPosition)
+					.onChange(async (value) => {
+						settings.indicatorPosition = value as IndicatorPosition;
+						await save();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Highlight pinned rows")
+			.setDesc("Tint the background of pinned rows, or mark them with an accent bar.")
+			.addDropdown((dd) =>
+				dd
+					.addOption("none", "None")
+					.addOption("background", "Background")
+					.addOption("accent", "Accent bar")
+					.setValue(settings.rowHighlight)
+					.onChange(async (value) => {
+						settings.rowHighlight = value as RowHighlight;
+						await save();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Highlight color")
+			.setDesc(settings.highlightColor ? settings.highlightColor : "Using the theme's accent color.")
+			.addColorPicker((picker) =>
+				picker.setValue(settings.highlightColor || "#7f6df2").onChange(async (value) => {
+					settings.highlightColor = value;
+					await save();
+				}),
+			)
+			.addExtraButton((btn) =>
+				btn
+					.setIcon("rotate-ccw")
+					.setTooltip("Use the theme's accent color")
+					.onClick(async () => {
+						settings.highlightColor = "";
+						await save();
+						this.display();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Count pins on collapsed folders")
+			.setDesc("Show how many pinned items a collapsed folder contains, at any depth.")
+			.addToggle((toggle) =>
+				toggle.setValue(settings.showFolderBadges).onChange(async (value) => {
+					settings.showFolderBadges = value;
+					await save();
+				}),
+			);
+
+		new Setting(containerEl)
+			.setName("Show pin labels inline")
+			.setDesc("Display each pin's label after its name. Labels always show when hovering the indicator.")
+			.addToggle((toggle) =>
+				toggle.setValue(settings.showPinLabels).onChange(async (value) => {
+					settings.showPinLabels = value;
+					await save();
+				}),
+			);
+	}
+
+	/** Where else pin state is shown: view headers, status bar, tabs, side panes. */
+	private displayWorkspaceIndicators(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		new Setting(containerEl).setName("Outside the file explorer").setHeading();
+
+		type Key = "showHeaderAction" | "showStatusBar" | "showTabIndicators" | "showPaneIndicators";
+		const toggles: [Key, string, string][] = [
+			["showHeaderAction", "Pin button in note header", "Add a button to pin or unpin the file to the header of each open file."],
+			["showStatusBar", "Pin state in status bar", "Show whether the active file is pinned. Click it to pin or unpin."],
+			["showTabIndicators", "Indicator in tabs", "Show the pin indicator in the tab headers of pinned files."],
+			["showPaneIndicators", "Indicator in bookmarks and search", "Show the pin indicator on pinned files in the bookmarks and search panes."],
+		];
+		for (const [key, name, desc] of toggles) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addToggle((toggle) =>
+					toggle.setValue(settings[key]).onChange(async (value) => {
+						settings[key] = value;
+						await this.plugin.saveSettings();
+						this.plugin.workspaceIndicators.schedule();
+					}),
+				);
+		}
+	}
+
+	/** Order of the pinned group, and folders with their own sort order. */
+	private displaySorting(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		new Setting(containerEl)
+			.setName("Pinned items order")
+			.setDesc("How pinned items are sorted at the top of each folder. Drag to reorder only works in manual order.")
+			.addDropdown((dd) =>
+				dd
+					.addOptions(PINNED_SORT_LABELS)
+					.setValue(settings.pinnedSortMode)
+					.onChange(async (value) => {
+						settings.pinnedSortMode = value as PinnedSortMode;
+						await this.plugin.saveSettings();
+						this.plugin.refreshExplorer();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Folder sort overrides")
+			.setDesc(
+				"Give chosen folders their own sort order, optionally with their own order for pinned items. Subfolders keep the usual order.",
+			)
+			.setHeading();
+
+		const sorts = settings.folderSorts;
+		for (const sort of sorts) {
+			new Setting(containerEl)
+				.addText((text) =>
+					text
+						.setPlaceholder("Example: journal")
+						.setValue(sort.folder === "/" ? "" : sort.folder)
+						.onChange((value) => {
+							sort.folder = normalizePath(value.trim() || "/");
+							this.applySorting();
+						}),
+				)
+				.addDropdown((dd) =>
+					dd
+						.addOption("", "Explorer's order")
+						.addOptions(EXPLORER_SORT_LABELS)
+						.setValue(sort.order ?? "")
+						.onChange((value) => {
+							if (value) sort.order = value as ExplorerSortOrder;
+							else delete sort.order;
+							this.applySorting();
+						}),
+				)
+				.addDropdown((dd) =>
+					dd
+						.addOption("", "Default pinned order")
+						.addOptions(PINNED_SORT_LABELS)
+						.setValue(sort.pinned ?? "")
+						.onChange((value) => {
+							if (value) sort.pinned = value as PinnedSortMode;
+							else delete sort.pinned;
+							this.applySorting();
+						}),
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("trash")
+						.setTooltip("Remove override")
+						.onClick(() => {
+							sorts.remove(sort);
+							this.applySorting();
+							this.display();
+						}),
+				);
+		}
+
+		new Setting(containerEl).addButton((btn) =>
+			btn.setButtonText("Add folder").onClick(() => {
+				const sort: FolderSort = { folder: "/" };
+				sorts.push(sort);
+				void this.plugin.saveSettings();
+				this.display();
+			}),
+		);
+	}
+
+	/** Storage mode (changed only through the migrations) + frontmatter key. */
+	private displayStorage(containerEl: HTMLElement): void {
+		const inFrontmatter = this.plugin.settings.storageMode === "frontmatter";
+
+		new Setting(containerEl)
+			.setName("Store pins in frontmatter")
+			.setDesc(
+				inFrontmatter
+					? "Pinned notes carry the frontmatter key below, and editing it pins or unpins the note. Moving back removes the key from every pinned note."
+					: "Pins live only in the plugin's data file. Moving to frontmatter writes the key below into every pinned note.",
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText(inFrontmatter ? "Move to plugin data" : "Move to frontmatter")
+					.onClick(async () => {
+						await this.plugin.moveStorage(inFrontmatter ? "data" : "frontmatter");
+						this.display();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Frontmatter key")
+			.setDesc(
+				inFrontmatter
+					? "Move pins back to plugin data before changing the key."
+					: "Key written as `<key>: true` when pins are stored in frontmatter.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.frontmatterKey)
+					.setValue(this.plugin.settings.frontmatterKey)
+					.setDisabled(inFrontmatter)
+					.onChange(async (value) => {
+						this.plugin.settings.frontmatterKey = value.trim() || DEFAULT_SETTINGS.frontmatterKey;
+						await this.plugin.saveSettings();
+					}),
+			);
+	}
+
+	/** Editable list of dynamic pin rules plus an "Add rule" button. */
+	private displayRules(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Pin rules")
+			.setDesc(
+				"Pin files automatically by path glob, tag, or frontmatter. Rule pins appear with a dimmed indicator and cannot be unpinned by hand.",
+			)
+			.setHeading();
+
+		const rules = this.plugin.settings.pinRules;
+		for (const rule of rules) {
+			new Setting(containerEl)
+				.addDropdown((dd) =>
+					dd
+						.addOptions(RULE_TYPE_LABELS)
+						.setValue(rule.type)
+						.onChange((value) => {
+							rule.type = value as PinRuleType;
+							this.applyRules();
+							this.display();
+						}),
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder(RULE_PLACEHOLDERS[rule.type])
+						.setValue(rule.value)
+						.onChange((value) => {
+							rule.value = value;
+							this.applyRules();
+						}),
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setTooltip("Enabled")
+						.setValue(rule.enabled)
+						.onChange((value) => {
+							rule.enabled = value;
+							this.applyRules();
+						}),
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("trash")
+						.setTooltip("Delete rule")
+						.onClick(() => {
+							rules.remove(rule);
+							this.applyRules();
+							this.display();
+						}),
+				);
+		}
+
+		new Setting(containerEl).addButton((btn) =>
+			btn.setButtonText("Add rule").onClick(() => {
+				const rule: PinRule = {
+					id: Date.now().toString(36),
+					type: "glob",
+					value: "",
+					enabled: true,
+				};
+				rules.push(rule);
+				void this.plugin.saveSettings();
+				this.display();
+			}),
+		);
 	}
 }
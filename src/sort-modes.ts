@@ -0,0 +1,104 @@
+import { App, TAbstractFile, TFile, TFolder } from "obsidian";
+import type { ExplorerSortOrder, FolderSort, PinnedSortMode, SimplePinSettings } from "./types";
+
+export const EXPLORER_SORT_LABELS: Record<ExplorerSortOrder, string> = {
+	alphabetical: "File name (A to Z)",
+	alphabeticalReverse: "File name (Z to A)",
+	byModifiedTime: "Modified time (new to old)",
+	byModifiedTimeReverse: "Modified time (old to new)",
+	byCreatedTime: "Created time (new to old)",
+	byCreatedTimeReverse: "Created time (old to new)",
+};
+
+export const PINNED_SORT_LABELS: Record<PinnedSortMode, string> = {
+	manual: "Manual order",
+	inherit: "Same as the folder",
+	name: "File name (A to Z)",
+	mtime: "Modified time (new to old)",
+	ctime: "Created time (new to old)",
+};
+
+export function isExplorerSortOrder(value: unknown): value is ExplorerSortOrder {
+	return typeof value === "string" && Object.keys(EXPLORER_SORT_LABELS).includes(value);
+}
+
+export function isPinnedSortMode(value: unknown): value is PinnedSortMode {
+	return typeof value === "string" && Object.keys(PINNED_SORT_LABELS).includes(value);
+}
+
+/** The sort override for `folderPath`, if it has one. */
+export function getFolderSort(settings: SimplePinSettings, folderPath: string): FolderSort | undefined {
+	return settings.folderSorts.find((s) => s.folder === folderPath);
+}
+
+/** How the pinned group of `folderPath` is sorted. */
+export function pinnedSortModeFor(settings: SimplePinSettings, folderPath: string): PinnedSortMode {
+	return getFolderSort(settings, folderPath)?.pinned ?? settings.pinnedSortMode;
+}
+
+/**
+ * The sort order chosen in the File Explorer, read from the vault's
+ * internal config (alphabetical if that can't be read).
+ */
+export function explorerSortOrder(app: App): ExplorerSortOrder {
+	try {
+		const vault = app.vault as unknown as { getConfig?(key: string): unknown };
+		const order = vault.getConfig?.("fileSortOrder");
+		if (isExplorerSortOrder(order)) return order;
+	} catch (e) {
+		console.warn("[Simple Pin] Could not read the explorer sort order:", e);
+	}
+	return "alphabetical";
+}
+
+/** Order of `folderPath`'s children: its override, else the explorer's. */
+export function folderSortOrder(app: App, settings: SimplePinSettings, folderPath: string): ExplorerSortOrder {
+	return getFolderSort(settings, folderPath)?.order ?? explorerSortOrder(app);
+}
+
+/**
+ * Whether editing a file in `folderPath` can move it: when the folder
+ * is sorted by modified time, or its (pinned) group is.
+ */
+export function sortsByModifiedTime(settings: SimplePinSettings, folderPath: string, pinned: boolean): boolean {
+	if (getFolderSort(settings, folderPath)?.order?.startsWith("byModifiedTime")) return true;
+	return pinned && pinnedSortModeFor(settings, folderPath) === "mtime";
+}
+
+/**
+ * Compare like the File Explorer does for `order`: folders first and
+ * by name, then files by the order's key.
+ */
+export function compareByOrder(order: ExplorerSortOrder): (a: TAbstractFile, b: TAbstractFile) => number {
+	const reverse = order.endsWith("Reverse");
+	const key = order.startsWith("byModifiedTime") ? "mtime" : order.startsWith("byCreatedTime") ? "ctime" : null;
+	return (a, b) => {
+		const aFolder = a instanceof TFolder;
+		const bFolder = b instanceof TFolder;
+		if (aFolder !== bFolder) return aFolder ? -1 : 1;
+		if (!key || aFolder) {
+			const byName = compareNames(a, b);
+			return order === "alphabeticalReverse" ? -byName : byName;
+		}
+		const newer = timeOf(b, key) - timeOf(a, key);
+		return (reverse ? -newer : newer) || compareNames(a, b);
+	};
+}
+
+/**
+ * Compare pinned items for the `name`, `mtime` and `ctime` modes (newest
+ * first).  Folders have no times, so they go after files in the time
+ * modes when the two are mixed.
+ */
+export function comparePinned(mode: "name" | "mtime" | "ctime"): (a: TAbstractFile, b: TAbstractFile) => number {
+	if (mode === "name") return compareNames;
+	return (a, b) => timeOf(b, mode) - timeOf(a, mode) || compareNames(a, b);
+}
+
+function compareNames(a: TAbstractFile, b: TAbstractFile): number {
+	return a.name.localeCompare(b.name, undefined, { numeric: true });
+}
+
+function timeOf(file: TAbstractFile, key: "mtime" | "ctime"): number {
+	return file instanceof TFile ? file.stat[key] : 0;
+}
@@ -2,13 +2,197 @@
  * Plugin settings persisted via loadData/saveData.
  */
 export interface SimplePinSettings {
-	/** Show a pin indicator (📌) prefix in the file explorer */
+	/** Shape version of this data, see `SCHEMA_VERSION` in migrations.ts */
+	schemaVersion: number;
+	/** Show a pin indicator on pinned rows in the file explorer */
 	showPinIndicator: boolean;
-	/** Array of pinned file paths (vault-relative) */
-	pinnedPaths: string[];
+	/** Lucide icon id for the indicator; empty for the 📌 emoji */
+	indicatorIcon: string;
+	/** Indicator before or after the name */
+	indicatorPosition: IndicatorPosition;
+	/** Extra styling of pinned rows in the explorer */
+	rowHighlight: RowHighlight;
+	/** Color of highlights and icons; empty for the theme's accent color */
+	highlightColor: string;
+	/** Show each pin's label after its name in the explorer, not only on hover */
+	showPinLabels: boolean;
+	/** Count of pinned items on collapsed folders */
+	showFolderBadges: boolean;
+	/** Pin / unpin button in the header of file views */
+	showHeaderAction: boolean;
+	/** Pin state of the active file in the status bar */
+	showStatusBar: boolean;
+	/** Indicator in the tab headers of pinned files */
+	showTabIndicators: boolean;
+	/** Indicator on pinned files in the Bookmarks and Search panes */
+	showPaneIndicators: boolean;
+	/** Sort pinned folders above pinned files (otherwise keep them mixed) */
+	pinnedFoldersFirst: boolean;
+	/** How the pinned group of each folder is sorted */
+	pinnedSortMode: PinnedSortMode;
+	/** Folders sorted differently from the rest of the vault */
+	folderSorts: FolderSort[];
+	/** Show global pins in a "Pinned" section at the top of the explorer */
+	showGlobalSection: boolean;
+	/** Rank pinned files first in the core Quick Switcher */
+	boostQuickSwitcher: boolean;
+	/** Named pin sets; only the active one is shown and edited */
+	profiles: PinProfile[];
+	/** `id` of the profile `PinManager` and the explorer act on */
+	activeProfileId: string;
+	/** Profile id → when it was deleted, so a merge doesn't bring it back */
+	deletedProfiles: Record<string, number>;
+	/** Rules that pin matching files dynamically, alongside manual pins */
+	pinRules: PinRule[];
+	/**
+	 * Where manual pins on markdown notes live: only in plugin data, or
+	 * additionally as a frontmatter flag that syncs both ways.
+	 */
+	storageMode: PinStorageMode;
+	/** Frontmatter key written as `<key>: true` in "frontmatter" mode */
+	frontmatterKey: string;
+	/** Malformed entries set aside while loading, kept for recovery */
+	quarantine: QuarantinedEntry[];
+	/** Days pin changes stay in the undo history */
+	historyDays: number;
+}
+
+export type PinStorageMode = "data" | "frontmatter";
+
+/**
+ * Order of the pinned group:
+ * - `manual`:  the user's drag / "Move pin" order (rule pins after, by name)
+ * - `inherit`: the folder's own sort order, as for unpinned items
+ * - `name`, `mtime`, `ctime`: by name, or newest modified / created first
+ */
+export type PinnedSortMode = "manual" | "inherit" | "name" | "mtime" | "ctime";
+
+/** The File Explorer's sort orders, named as Obsidian stores them. */
+export type ExplorerSortOrder =
+	| "alphabetical"
+	| "alphabeticalReverse"
+	| "byModifiedTime"
+	| "byModifiedTimeReverse"
+	| "byCreatedTime"
+	| "byCreatedTimeReverse";
+
+/** A folder whose children are sorted differently from the explorer's setting. */
+export interface FolderSort {
+	/** Vault-relative folder path ("/" for the vault root) */
+	folder: string;
+	/** Order of the folder's children; unset keeps the explorer's */
+	order?: ExplorerSortOrder;
+	/** Order of the folder's pinned group; unset uses `pinnedSortMode` */
+	pinned?: PinnedSortMode;
+}
+
+export type IndicatorPosition = "prefix" | "suffix";
+
+/** `background` tints pinned rows, `accent` draws a bar at their edge. */
+export type RowHighlight = "none" | "background" | "accent";
+
+/** A named set of manual pins ("profile"). */
+export interface PinProfile {
+	/** Stable identifier, referenced by `activeProfileId` */
+	id: string;
+	name: string;
+	/**
+	 * Pinned files and folders, keyed by the path of their parent folder
+	 * ("/" for the vault root).  Each list is in the user-defined
+	 * display order.
+	 */
+	pins: Record<string, PinRecord[]>;
+	/** Switch to this profile when this workspace layout is loaded */
+	workspace?: string;
+	/**
+	 * Path → when it was last unpinned (epoch ms), so merging with an
+	 * older copy of the data (sync, git) doesn't bring the pin back
+	 */
+	removed?: Record<string, number>;
+	/** Path → when it was sunk to the bottom of its folder (epoch ms) */
+	sunk?: Record<string, number>;
+}
+
+/** A single manual pin and its metadata. */
+export interface PinRecord {
+	/** Vault-relative path of the pinned file or folder */
+	path: string;
+	/** Epoch ms after which the pin is removed automatically */
+	expiresAt?: number;
+	/** When the pin was added or last changed (epoch ms), for merging */
+	updatedAt?: number;
+	/** Also shown in the global "Pinned" section at the explorer root */
+	global?: boolean;
+	/** Indicator icon for this pin only (Lucide id), overriding the setting */
+	icon?: string;
+	/** Color for this pin only (CSS color), overriding the setting */
+	color?: string;
+	/** Why the file is pinned ("current sprint"), shown as a tooltip */
+	label?: string;
+	/** Identity of the pinned file, to find it again after an outside rename */
+	fingerprint?: PinFingerprint;
+}
+
+/** What a file looked like when it was pinned (files only, not folders). */
+export interface PinFingerprint {
+	size: number;
+	/** Creation time (epoch ms), which survives renames on most systems */
+	ctime: number;
+	/** Hash of the content — markdown notes up to a size limit only */
+	hash?: string;
+}
+
+/** How a {@link PinRule} matches files. */
+export type PinRuleType = "glob" | "tag" | "frontmatter";
+
+/**
+ * A dynamic pin rule.  `value` is interpreted per type:
+ * - `glob`:        a path pattern such as `index.md` or `Projects/**`
+ * - `tag`:         a tag with or without `#` (nested tags match too)
+ * - `frontmatter`: `key` (any truthy value) or `key: value`
+ */
+export interface PinRule {
+	/** Stable identifier, used to key compiled patterns */
+	id: string;
+	type: PinRuleType;
+	value: string;
+	enabled: boolean;
+}
+
+/** A piece of stored data that failed validation on load. */
+export interface QuarantinedEntry {
+	/** ISO timestamp of when the entry was set aside */
+	at: string;
+	/** Why it was rejected */
+	reason: string;
+	/** The original value, untouched */
+	value: unknown;
 }
 
 export const DEFAULT_SETTINGS: SimplePinSettings = {
+	schemaVersion: 3,
 	showPinIndicator: true,
-	pinnedPaths: [],
+	indicatorIcon: "",
+	indicatorPosition: "prefix",
+	rowHighlight: "none",
+	highlightColor: "",
+	showPinLabels: false,
+	showFolderBadges: true,
+	showHeaderAction: true,
+	showStatusBar: true,
+	showTabIndicators: true,
+	showPaneIndicators: true,
+	pinnedFoldersFirst: true,
+	pinnedSortMode: "manual",
+	folderSorts: [],
+	showGlobalSection: false,
+	boostQuickSwitcher: false,
+	profiles: [],
+	activeProfileId: "default",
+	deletedProfiles: {},
+	pinRules: [],
+	storageMode: "data",
+	frontmatterKey: "pinned",
+	quarantine: [],
+	historyDays: 30,
 };
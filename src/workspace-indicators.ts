@@ -0,0 +1,302 @@
+import { FileView, TFile, View, WorkspaceLeaf, setIcon } from "obsidian";
+import type SimplePinPlugin from "./main";
+import { createPinIndicator } from "./pin-indicator";
+
+/** Internal shape of a Search pane result, keyed by file in `resultDomLookup`. */
+interface SearchResultDom {
+	el?: HTMLElement;
+}
+
+/** Internal shape of a Bookmarks pane tree item. */
+interface BookmarkItemDom {
+	selfEl?: HTMLElement;
+	innerEl?: HTMLElement;
+}
+
+/** A bookmark from the core Bookmarks plugin; groups nest more items. */
+interface BookmarkItem {
+	type: string;
+	path?: string;
+	items?: BookmarkItem[];
+}
+
+/**
+ * Shows pin state outside the File Explorer, each part optional:
+ *
+ * - a pin / unpin button in the header of every file view
+ * - the active file's pin state in the status bar (click to toggle)
+ * - the indicator in tab headers of pinned files
+ * - the indicator on pinned files in the core Bookmarks and Search panes
+ *
+ * Indicators are built by {@link createPinIndicator}, so they look like
+ * the explorer's.  Everything is redrawn (at most once per task) when
+ * the pins or the workspace change, and when the Bookmarks or Search
+ * panes re-render their lists.
+ *
+ * Touches the internal tab header, Search and Bookmarks pane elements.
+ */
+export class WorkspaceIndicators {
+	private plugin: SimplePinPlugin;
+	/** Header button added to each file view */
+	private actions: Map<View, HTMLElement> = new Map();
+	private statusBarEl: HTMLElement | null = null;
+	/** Watches the Bookmarks and Search panes for re-rendered lists */
+	private observers: Map<HTMLElement, MutationObserver> = new Map();
+	private queued = false;
+
+	/** Marks indicators added here (not the explorer's), for cleanup */
+	private static readonly CLS = "simple-pin-workspace-indicator";
+
+	constructor(plugin: SimplePinPlugin) {
+		this.plugin = plugin;
+	}
+
+	/** Follow pin and workspace changes (call once, when the layout is ready). */
+	register(): void {
+		const { plugin } = this;
+		const { workspace } = plugin.app;
+		const schedule = () => this.schedule();
+		plugin.registerEvent(plugin.pinManager.on("changed", schedule));
+		plugin.registerEvent(workspace.on("layout-change", schedule));
+		plugin.registerEvent(workspace.on("active-leaf-change", schedule));
+		plugin.registerEvent(workspace.on("file-open", schedule));
+		this.schedule();
+	}
+
+	/** Redraw everything once the current task is done. */
+	schedule(): void {
+		if (this.queued) return;
+		this.queued = true;
+		queueMicrotask(() => {
+			this.queued = false;
+			this.update();
+		});
+	}
+
+	/** Remove every button, indicator and observer (on unload). */
+	remove(): void {
+		for (const el of this.actions.values()) el.remove();
+		this.actions.clear();
+		this.statusBarEl?.remove();
+		this.statusBarEl = null;
+		this.disconnectObservers();
+		this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+			this.clearIndicators(leaf.view.containerEl);
+			const titleEl = this.tabTitleEl(leaf);
+			if (titleEl?.parentElement) this.clearIndicators(titleEl.parentElement);
+		});
+	}
+
+	/* ── internal ───────────────────────────────────── */
+
+	private update(): void {
+		const parts: [string, () => void][] = [
+			["header actions", () => this.updateHeaderActions()],
+			["status bar", () => this.updateStatusBar()],
+			["tab headers", () => this.updateTabHeaders()],
+			["panes", () => this.updatePanes()],
+		];
+		for (const [name, run] of parts) {
+			try {
+				run();
+			} catch (e) {
+				console.warn(`[Simple Pin] Could not update ${name}:`, e);
+			}
+		}
+	}
+
+	/** One pin button per file view, showing the state of the view's file. */
+	private updateHeaderActions(): void {
+		const seen = new Set<View>();
+		if (this.plugin.settings.showHeaderAction) {
+			this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+				const view = leaf.view;
+				if (!(view instanceof FileView)) return;
+				seen.add(view);
+				let el = this.actions.get(view);
+				if (!el) {
+					el = view.addAction("pin", "Pin", () => {
+						if (view.file) this.toggle(view.file);
+					});
+					this.actions.set(view, el);
+				}
+				this.renderAction(el, view.file);
+			});
+		}
+		for (const [view, el] of this.actions) {
+			if (seen.has(view)) continue;
+			el.remove();
+			this.actions.delete(view);
+		}
+	}
+
+	private renderAction(el: HTMLElement, file: TFile | null): void {
+		el.toggle(!!file);
+		if (!file) return;
+		const pm = this.plugin.pinManager;
+		const source = pm.getPinSource(file.path);
+		const pin = pm.getPin(file.path);
+		setIcon(el, source ? pin?.icon || this.plugin.settings.indicatorIcon || "pin" : "pin");
+		el.toggleClass("simple-pin-action-pinned", source !== null);
+		el.toggleClass("simple-pin-action-rule", source === "rule");
+		if (pin?.color) el.setCssProps({ "--simple-pin-indicator-color": pin.color });
+		else el.style.removeProperty("--simple-pin-indicator-color");
+		el.setAttr(
+			"aria-label",
+			source === "rule" ? "Pinned by rule" : source ? "Unpin in file explorer" : "Pin in file explorer",
+		);
+	}
+
+	/** The active file's pin state; clicking toggles a manual pin. */
+	private updateStatusBar(): void {
+		const file = this.plugin.app.workspace.getActiveFile();
+		if (!this.plugin.settings.showStatusBar) {
+			this.statusBarEl?.remove();
+			this.statusBarEl = null;
+			return;
+		}
+		if (!this.statusBarEl) {
+			const el = this.plugin.addStatusBarItem();
+			el.addClasses(["mod-clickable", "simple-pin-status"]);
+			this.plugin.registerDomEvent(el, "click", () => {
+				const active = this.plugin.app.workspace.getActiveFile();
+				if (active) this.toggle(active);
+			});
+			this.statusBarEl = el;
+		}
+
+		const el = this.statusBarEl;
+		el.empty();
+		el.toggle(!!file);
+		if (!file) return;
+		const source = this.plugin.pinManager.getPinSource(file.path);
+		if (source) {
+			el.append(createPinIndicator(this.plugin, file.path));
+			el.createSpan({ text: source === "rule" ? "Pinned by rule" : "Pinned" });
+		} else {
+			el.createSpan({ cls: "simple-pin-status-unpinned", text: "Not pinned" });
+		}
+		el.toggleClass("mod-clickable", source !== "rule");
+		if (source === "rule") el.removeAttribute("aria-label");
+		else el.setAttr("aria-label", source ? "Click to unpin" : "Click to pin");
+	}
+
+	/** The indicator in front of the title of each pinned file's tab. */
+	private updateTabHeaders(): void {
+		const show = this.plugin.settings.showTabIndicators;
+		this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+			const titleEl = this.tabTitleEl(leaf);
+			if (!titleEl) return;
+			if (titleEl.parentElement) this.clearIndicators(titleEl.parentElement);
+
+			const file = leaf.view instanceof FileView ? leaf.view.file : null;
+			if (!show || !file || !this.plugin.pinManager.isPinned(file.path)) return;
+			titleEl.before(this.createIndicator(file.path, "simple-pin-tab-indicator"));
+		});
+	}
+
+	private tabTitleEl(leaf: WorkspaceLeaf): HTMLElement | null {
+		const titleEl = (leaf as WorkspaceLeaf & { tabHeaderInnerTitleEl?: unknown }).tabHeaderInnerTitleEl;
+		return titleEl instanceof HTMLElement ? titleEl : null;
+	}
+
+	/** The indicator on pinned files in the Bookmarks and Search panes. */
+	private updatePanes(): void {
+		const { workspace } = this.plugin.app;
+		const show = this.plugin.settings.showPaneIndicators;
+		const watched = new Set<HTMLElement>();
+
+		for (const leaf of workspace.getLeavesOfType("search")) {
+			const el = leaf.view.containerEl;
+			this.clearIndicators(el);
+			if (!show) continue;
+			watched.add(el);
+			this.decorateSearch(leaf.view);
+		}
+		for (const leaf of workspace.getLeavesOfType("bookmarks")) {
+			const el = leaf.view.containerEl;
+			this.clearIndicators(el);
+			if (!show) continue;
+			watched.add(el);
+			this.decorateBookmarks(leaf.view);
+		}
+
+		for (const [el, observer] of this.observers) {
+			if (watched.has(el)) continue;
+			observer.disconnect();
+			this.observers.delete(el);
+		}
+		for (const el of watched) this.observe(el);
+	}
+
+	private decorateSearch(view: View): void {
+		const lookup = (view as View & { dom?: { resultDomLookup?: unknown } }).dom?.resultDomLookup;
+		if (!(lookup instanceof Map)) return;
+		for (const [file, dom] of lookup as Map<unknown, SearchResultDom>) {
+			if (!(file instanceof TFile) || !this.plugin.pinManager.isPinned(file.path)) continue;
+			const titleEl = dom.el?.querySelector(".search-result-file-title .tree-item-inner");
+			titleEl?.prepend(this.createIndicator(file.path, "simple-pin-pane-indicator"));
+		}
+	}
+
+	private decorateBookmarks(view: View): void {
+		const itemDoms = (view as View & { itemDoms?: unknown }).itemDoms;
+		const internal = (this.plugin.app as unknown as {
+			internalPlugins?: { getPluginById?(id: string): { instance?: { items?: unknown } } | null };
+		}).internalPlugins;
+		const items = internal?.getPluginById?.("bookmarks")?.instance?.items;
+		if (!(itemDoms instanceof WeakMap || itemDoms instanceof Map) || !Array.isArray(items)) return;
+
+		const visit = (list: BookmarkItem[]) => {
+			for (const item of list) {
+				if (item.type === "group" && Array.isArray(item.items)) visit(item.items);
+				if ((item.type !== "file" && item.type !== "folder") || !item.path) continue;
+				if (!this.plugin.pinManager.isPinned(item.path)) continue;
+				const dom = (itemDoms as WeakMap<object, BookmarkItemDom>).get(item);
+				const titleEl = dom?.innerEl ?? dom?.selfEl;
+				titleEl?.prepend(this.createIndicator(item.path, "simple-pin-pane-indicator"));
+			}
+		};
+		visit(items as BookmarkItem[]);
+	}
+
+	private createIndicator(path: string, cls: string): HTMLElement {
+		const indicator = createPinIndicator(this.plugin, path);
+		indicator.addClasses([WorkspaceIndicators.CLS, cls]);
+		return indicator;
+	}
+
+	/** Remove our indicators from `el`. */
+	private clearIndicators(el: HTMLElement): void {
+		el.querySelectorAll(`.${WorkspaceIndicators.CLS}`).forEach((ind) => ind.remove());
+	}
+
+	/**
+	 * Redraw when a pane re-renders its list.  Our own insertions (only
+	 * indicators) and removals are ignored, so this doesn't loop.
+	 */
+	private observe(el: HTMLElement): void {
+		if (this.observers.has(el)) return;
+		const observer = new MutationObserver((mutations) => {
+			const rerendered = mutations.some((m) =>
+				Array.from(m.addedNodes).some(
+					(node) => !(node instanceof HTMLElement && node.hasClass(WorkspaceIndicators.CLS)),
+				),
+			);
+			if (rerendered) this.schedule();
+		});
+		observer.observe(el, { childList: true, subtree: true });
+		this.observers.set(el, observer);
+	}
+
+	private disconnectObservers(): void {
+		for (const observer of this.observers.values()) observer.disconnect();
+		this.observers.clear();
+	}
+
+	/** Toggle a manual pin from a header button or the status bar. */
+	private toggle(file: TFile): void {
+		if (this.plugin.pinManager.getPinSource(file.path) === "rule") return;
+		void this.plugin.togglePinWithNotice(file);
+	}
+}